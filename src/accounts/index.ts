@@ -0,0 +1,30 @@
+import { AccountStore } from "./store.js";
+
+export { AccountStore } from "./store.js";
+export type * from "./types.js";
+
+let accountStore: AccountStore | undefined;
+
+// Shared store, created on first use so ACCOUNTS_FILE is read after .env is loaded
+export const getAccountStore = (): AccountStore => {
+  if (!accountStore) {
+    const store = new AccountStore(process.env.ACCOUNTS_FILE);
+    // Writes are batched; save what is still pending on the way out
+    process.once("exit", () => store.flushSync());
+    accountStore = store;
+  }
+  return accountStore;
+};
+
+// API key from "X-API-Key: <key>" or "Authorization: Bearer <key>"
+export const getApiKey = (headers: { [name: string]: string | string[] | undefined }): string | undefined => {
+  const apiKey = headers["x-api-key"];
+  if (typeof apiKey === "string" && apiKey) {
+    return apiKey;
+  }
+  const authorization = headers["authorization"];
+  if (typeof authorization === "string" && /^Bearer\s+/i.test(authorization)) {
+    return authorization.replace(/^Bearer\s+/i, "").trim() || undefined;
+  }
+  return undefined;
+};
@@ -0,0 +1,174 @@
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { Account, CreditHold, TopUpEntry, UsageEntry } from "./types.js";
+
+const API_KEY_PREFIX = "fmcp_";
+
+// Usage entries kept per account; older ones are dropped
+const MAX_USAGE_ENTRIES = 1000;
+
+// Changes within this window are written to the file together
+const SAVE_DELAY_MS = 250;
+
+const hashApiKey = (apiKey: string): string => {
+  return createHash("sha256").update(apiKey).digest("hex");
+};
+
+/**
+ * Prepaid credit accounts, keyed by API key.
+ * Kept in memory, and mirrored to a JSON file when one is given so balances
+ * survive restarts. File writes are batched and asynchronous, so holds and
+ * releases on the request path never block; call flushSync before exiting.
+ */
+export class AccountStore {
+  private accounts = new Map<string, Account>();
+  private accountIdsByKeyHash = new Map<string, string>();
+  // Count of changes made, and of changes already on disk
+  private changes = 0;
+  private savedChanges = 0;
+  private saveTimer?: NodeJS.Timeout;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private filePath?: string) {
+    if (filePath && existsSync(filePath)) {
+      const saved = JSON.parse(readFileSync(filePath, "utf8")) as Account[];
+      for (const account of saved) {
+        this.accounts.set(account.id, account);
+        this.accountIdsByKeyHash.set(account.apiKeyHash, account.id);
+      }
+    }
+  }
+
+  // Create an empty account; the returned API key is not stored anywhere
+  createAccount(): { account: Account; apiKey: string } {
+    const apiKey = `${API_KEY_PREFIX}${randomBytes(24).toString("hex")}`;
+    const account: Account = {
+      id: randomUUID(),
+      apiKeyHash: hashApiKey(apiKey),
+      balance: 0,
+      createdAt: new Date().toISOString(),
+      topUps: [],
+      usage: [],
+    };
+    this.accounts.set(account.id, account);
+    this.accountIdsByKeyHash.set(account.apiKeyHash, account.id);
+    this.save();
+    return { account, apiKey };
+  }
+
+  findByApiKey(apiKey: string): Account | undefined {
+    const accountId = this.accountIdsByKeyHash.get(hashApiKey(apiKey));
+    return accountId ? this.accounts.get(accountId) : undefined;
+  }
+
+  get(accountId: string): Account | undefined {
+    return this.accounts.get(accountId);
+  }
+
+  credit(accountId: string, topUp: Omit<TopUpEntry, "at">): Account {
+    const account = this.require(accountId);
+    account.balance += topUp.amount;
+    account.topUps.push({ at: new Date().toISOString(), ...topUp });
+    this.save();
+    return account;
+  }
+
+  // Take the amount out of the balance up front so concurrent calls cannot
+  // overspend it; undefined when the balance is too low
+  hold(accountId: string, amount: number, description: string): CreditHold | undefined {
+    const account = this.require(accountId);
+    if (account.balance < amount) {
+      return undefined;
+    }
+    account.balance -= amount;
+    this.save();
+    return { accountId, amount, description };
+  }
+
+  // Settle a hold: keep it, or give back part or all of it (refunded) for
+  // what the request failed to deliver
+  release(hold: CreditHold, refunded: number = 0): UsageEntry {
+    const account = this.require(hold.accountId);
+    const refund = Math.min(Math.max(refunded, 0), hold.amount);
+    account.balance += refund;
+    const entry: UsageEntry = {
+      at: new Date().toISOString(),
+      description: hold.description,
+      amount: hold.amount - refund,
+      status: refund === 0 ? "charged" : refund === hold.amount ? "refunded" : "partially_refunded",
+      ...(refund > 0 ? { refunded: refund } : {}),
+    };
+    account.usage.push(entry);
+    if (account.usage.length > MAX_USAGE_ENTRIES) {
+      account.usage.splice(0, account.usage.length - MAX_USAGE_ENTRIES);
+    }
+    this.save();
+    return entry;
+  }
+
+  private require(accountId: string): Account {
+    const account = this.accounts.get(accountId);
+    if (!account) {
+      throw new Error(`Unknown account: ${accountId}`);
+    }
+    return account;
+  }
+
+  // Mark the accounts changed and schedule a write
+  private save() {
+    if (!this.filePath) {
+      return;
+    }
+    this.changes++;
+    this.saveTimer ??= setTimeout(() => {
+      this.saveTimer = undefined;
+      void this.flush();
+    }, SAVE_DELAY_MS);
+  }
+
+  // Write pending changes. Writes run one at a time; each goes to a temp file
+  // renamed over the old one, so a crash mid-write leaves the last good file.
+  flush(): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath) {
+      return Promise.resolve();
+    }
+    this.writing = this.writing.then(async () => {
+      const changes = this.changes;
+      if (changes === this.savedChanges) {
+        return;
+      }
+      try {
+        const tempPath = `${filePath}.tmp`;
+        await mkdir(dirname(filePath), { recursive: true });
+        await writeFile(tempPath, this.serialize());
+        await rename(tempPath, filePath);
+        this.savedChanges = changes;
+      } catch (error) {
+        console.error(`❌ Could not save accounts to ${filePath}:`, error);
+      }
+    });
+    return this.writing;
+  }
+
+  // Write pending changes right away, for process exit where async writes
+  // would never finish
+  flushSync() {
+    if (!this.filePath || this.changes === this.savedChanges) {
+      return;
+    }
+    clearTimeout(this.saveTimer);
+    this.saveTimer = undefined;
+    const tempPath = `${this.filePath}.tmp`;
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    writeFileSync(tempPath, this.serialize());
+    renameSync(tempPath, this.filePath);
+    this.savedChanges = this.changes;
+  }
+
+  private serialize(): string {
+    return JSON.stringify([...this.accounts.values()], null, 2);
+  }
+}
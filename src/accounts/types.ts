@@ -0,0 +1,40 @@
+// Amounts are atomic USDC units (6 decimals): 100000 = $0.1
+
+export type UsageStatus = "charged" | "refunded" | "partially_refunded";
+
+export type UsageEntry = {
+  at: string;
+  // What the credits paid for, e.g. "GET /mcp/calculate"
+  description: string;
+  // Amount kept after any refund
+  amount: number;
+  status: UsageStatus;
+  refunded?: number;
+};
+
+export type TopUpEntry = {
+  at: string;
+  amount: number;
+  network: string;
+  payer?: string;
+  transaction?: string;
+  // Ledger entry of the x402 payment that bought the credits
+  receiptId?: string;
+};
+
+export type Account = {
+  id: string;
+  // sha256 of the API key; the key itself is only shown once, at creation
+  apiKeyHash: string;
+  balance: number;
+  createdAt: string;
+  topUps: TopUpEntry[];
+  usage: UsageEntry[];
+};
+
+// A debit held while a request runs, then kept or (partly) refunded
+export type CreditHold = {
+  accountId: string;
+  amount: number;
+  description: string;
+};
@@ -0,0 +1,23 @@
+// MCP caps a completion result at 100 values
+export const MAX_COMPLETION_VALUES = 100;
+
+export interface CompletionResult {
+  values: string[];
+  total: number;
+  hasMore: boolean;
+}
+
+/**
+ * Complete a partial value from a known set: candidates starting with the
+ * prefix (ignoring case), in their declared order. An empty prefix offers
+ * them all.
+ */
+export const completeValues = (candidates: readonly string[], prefix: string): CompletionResult => {
+  const lowered = prefix.toLowerCase();
+  const matches = candidates.filter((candidate) => candidate.toLowerCase().startsWith(lowered));
+  return {
+    values: matches.slice(0, MAX_COMPLETION_VALUES),
+    total: matches.length,
+    hasMore: matches.length > MAX_COMPLETION_VALUES,
+  };
+};
@@ -1,26 +1,59 @@
+import {
+  LATEST_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from "@modelcontextprotocol/sdk/types.js";
+import { createToolRegistry } from "../tools/index.js";
+import { getPromptLibrary } from "../prompts/index.js";
+
 export const SERVER_CONFIG = {
   name: "FluidSDK MCP Server",
   version: "1.0.0",
-  protocolVersion: "2024-11-05",
+  protocolVersion: LATEST_PROTOCOL_VERSION,
+  supportedProtocolVersions: SUPPORTED_PROTOCOL_VERSIONS,
   documentation: "https://docs.fluidsdk.io",
 };
 
-export const TOOLS = {
-  calculate: "Perform mathematical calculations",
-  get_weather: "Get weather information",
-  echo: "Echo messages",
-  get_timestamp: "Get current timestamp",
+// Echo the client's protocol version when we support it (e.g. "2024-11-05"
+// for older clients), otherwise answer with the latest version we speak
+export const negotiateProtocolVersion = (requested?: unknown): string => {
+  if (typeof requested === "string" && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)) {
+    return requested;
+  }
+  return LATEST_PROTOCOL_VERSION;
+};
+
+// Streamable HTTP: answer POSTs with a single JSON body instead of an SSE stream
+export const isStreamableJsonResponse = (): boolean => {
+  return process.env.MCP_JSON_RESPONSE === "true";
+};
+
+// Express "trust proxy" setting from TRUST_PROXY: a number of proxy hops
+// ("1" behind Vercel or one load balancer) or a comma-separated list of
+// trusted proxy addresses. "true" would trust every hop and let clients pick
+// their own IP through X-Forwarded-For, so it counts as one hop.
+export const getTrustProxySetting = (): number | string | undefined => {
+  const value = process.env.TRUST_PROXY?.trim();
+  if (!value || value === "false") {
+    return undefined;
+  }
+  if (/^\d+$/.test(value)) {
+    return Number(value);
+  }
+  if (value === "true") {
+    console.warn("⚠️  TRUST_PROXY=true is treated as one proxy hop; set a hop count or proxy addresses instead");
+    return 1;
+  }
+  return value;
 };
 
-export const PROMPTS = {
-  greeting: "Generate greetings",
-  code_review: "Code review templates",
-  debug_assistant: "Debugging assistance",
+// Registered tools and their descriptions, read from the tool registry so
+// new tools show up without editing this file
+export const getToolSummaries = (): Record<string, string> => {
+  return Object.fromEntries(createToolRegistry().getAll().map((tool) => [tool.name, tool.description]));
 };
 
-export const RESOURCES = {
-  config: "Server configuration",
-  status: "Server status",
-  "docs/api": "API documentation",
-  "docs/quickstart": "Quick start guide",
+// Prompts and their descriptions, read from the prompt library so adding or
+// removing a template file shows up here
+export const getPromptSummaries = (): Record<string, string> => {
+  return Object.fromEntries(getPromptLibrary().getAll().map((prompt) => [prompt.name, prompt.description]));
 };
@@ -1,44 +1,269 @@
-import { Resource, type SolanaAddress } from "x402-express";
+import type { Resource } from "x402-express";
+import { getDefaultAsset, getNetworkId } from "x402/shared";
+import { NetworkSchema, SupportedSVMNetworks, type Network } from "x402/types";
+import { createToolRegistry } from "../tools/index.js";
+
+export interface PriceConfig {
+  // USD price, charged in USDC on whichever network the client pays on
+  price: string;
+  // Restrict the tool to some of the accepted networks (default: all of them)
+  networks?: Network[];
+  // Free calls per client per UTC day before payment is required
+  // (default: freeTier.callsPerDay)
+  freeCallsPerDay?: number;
+}
+
+// One way to pay: a network, the address receiving funds there and its asset
+export interface PaymentOption {
+  network: Network;
+  chainId: number;
+  payTo: string;
+  asset: {
+    address: string;
+    symbol: string;
+    decimals: number;
+  };
+}
 
 export const PAYMENT_CONFIG = {
-  // Tool pricing in USD
+  // Pricing catalog in USD, keyed by tool name. The single source for the
+  // x402 route map, tool listings and the / and /info endpoints.
+  // Tools missing from the catalog are free.
   tools: {
     calculate: {
       price: "$0.1",
-      network: "base-sepolia" as const,
     },
-    weather: {
-      price: "$0.2", 
-      network: "base-sepolia" as const,
+    evaluate: {
+      price: "$0.15",
+    },
+    get_weather: {
+      price: "$0.2",
     },
     echo: {
       price: "$0.5",
-      network: "base-sepolia" as const,
     },
-    timestamp: {
+    get_timestamp: {
       price: "$0.5",
-      network: "base-sepolia" as const,
     },
+    date_diff: {
+      price: "$0.1",
+    },
+  } as Record<string, PriceConfig>,
+
+  // Networks accepted when PAYMENT_NETWORKS is not set
+  defaultNetworks: ["base-sepolia"] as Network[],
+
+  // Free calls per tool per client per UTC day, unless FREE_CALLS_PER_DAY or
+  // the tool's own freeCallsPerDay says otherwise (0 turns the free tier off)
+  freeTier: {
+    callsPerDay: 0,
   },
-  
-  // JSON-RPC endpoint pricing
-  jsonRpc: {
-    price: "$0.5",
-    network: "base-sepolia" as const,
+
+  // Prepaid credits: limits on one x402 top-up of an API-key account
+  credits: {
+    minTopUp: "$1",
+    maxTopUp: "$100",
   },
 };
 
-// Helper to get facilitator URL from env
-export const getFacilitatorUrl = (): Resource | undefined => {
-  return process.env.FACILITATOR_URL as Resource | undefined;
+// Helper to get the accepted networks from env (comma separated, e.g. "base,base-sepolia,solana")
+export const getPaymentNetworks = (): Network[] => {
+  const configured = process.env.PAYMENT_NETWORKS;
+  if (!configured) {
+    return PAYMENT_CONFIG.defaultNetworks;
+  }
+  return configured
+    .split(",")
+    .map((network) => network.trim())
+    .filter((network): network is Network => {
+      const valid = NetworkSchema.safeParse(network).success;
+      if (!valid && network) {
+        console.warn(`⚠️  Ignoring unsupported payment network: ${network}`);
+      }
+      return valid;
+    });
+};
+
+export const isSolanaNetwork = (network: Network): boolean => {
+  return SupportedSVMNetworks.includes(network);
 };
 
-// Helper to get payment address from env
-export const getPaymentAddress = (): (`0x${string}` | SolanaAddress) | undefined => {
-  return process.env.ADDRESS as (`0x${string}` | SolanaAddress) | undefined;
+// Helper to get the address receiving payments on a network:
+// PAY_TO_<NETWORK> (e.g. PAY_TO_BASE_SEPOLIA), else SOLANA_ADDRESS for
+// Solana networks, else ADDRESS
+export const getPayTo = (network: Network): string | undefined => {
+  const override = process.env[`PAY_TO_${network.toUpperCase().replace(/-/g, "_")}`];
+  if (override) {
+    return override;
+  }
+  return isSolanaNetwork(network) ? process.env.SOLANA_ADDRESS : process.env.ADDRESS;
+};
+
+// Helper to get the USDC asset x402 charges "$" prices in on a network
+export const getNetworkAsset = (network: Network) => {
+  const asset = getDefaultAsset(network);
+  return {
+    address: asset.address as string,
+    symbol: "USDC",
+    decimals: asset.decimals,
+    eip712: asset.eip712,
+  };
+};
+
+// Helper to list the ways a price can be paid: every accepted network that
+// has a payTo address, narrowed to the price's own networks if it sets any
+export const getPaymentOptions = (pricing?: PriceConfig): PaymentOption[] => {
+  return getPaymentNetworks()
+    .filter((network) => !pricing?.networks || pricing.networks.includes(network))
+    .flatMap((network) => {
+      const payTo = getPayTo(network);
+      if (!payTo) {
+        return [];
+      }
+      const { address, symbol, decimals } = getNetworkAsset(network);
+      return [{
+        network,
+        chainId: getNetworkId(network),
+        payTo,
+        asset: { address, symbol, decimals },
+      }];
+    });
+};
+
+// Helper to look up a tool's price (undefined for free tools). Names come
+// from clients, so "constructor" and the like must not reach Object.prototype.
+export const getToolPrice = (toolName: string): PriceConfig | undefined => {
+  return Object.hasOwn(PAYMENT_CONFIG.tools, toolName) ? PAYMENT_CONFIG.tools[toolName] : undefined;
+};
+
+// Helper to describe a tool's price for listings, with every payment option
+export const getToolPricing = (toolName: string) => {
+  const pricing = getToolPrice(toolName);
+  if (!pricing) {
+    return null;
+  }
+  return {
+    price: pricing.price,
+    freeCallsPerDay: getFreeCallsPerDay(toolName),
+    options: getPaymentOptions(pricing),
+  };
+};
+
+// Helper to get how many free calls a client gets on a tool per UTC day
+// (0 for free tools, which need no allowance)
+export const getFreeCallsPerDay = (toolName: string): number => {
+  const pricing = getToolPrice(toolName);
+  if (!pricing) {
+    return 0;
+  }
+  if (pricing.freeCallsPerDay !== undefined) {
+    return pricing.freeCallsPerDay;
+  }
+  const configured = Number(process.env.FREE_CALLS_PER_DAY);
+  return Number.isInteger(configured) && configured >= 0 ? configured : PAYMENT_CONFIG.freeTier.callsPerDay;
+};
+
+// Helper to summarize prices for the / and /info endpoints
+export const getPricingSummary = () => {
+  // Registered tools that have a catalog price, as in getPaidRoutes
+  const pricedTools = createToolRegistry()
+    .getAll()
+    .flatMap((tool) => {
+      const pricing = getToolPrice(tool.name);
+      return pricing ? [[tool.name, pricing.price] as const] : [];
+    });
+  return {
+    tools: Object.fromEntries(pricedTools),
+    networks: getPaymentOptions().map(({ network }) => network),
+    freeCallsPerDay: Object.fromEntries(
+      pricedTools
+        .map(([toolName]) => [toolName, getFreeCallsPerDay(toolName)])
+        .filter(([, calls]) => calls !== 0)
+    ),
+  };
+};
+
+// A fixed-price route and the tool it runs
+export interface PaidRoute extends PriceConfig {
+  toolName: string;
+}
+
+// Fixed-price routes protected by the x402 middleware: GET and POST on the
+// REST endpoint of every priced tool
+// (POST /mcp is priced per tool call, see middleware/jsonRpcPayment.ts)
+export const getPaidRoutes = (): Record<string, PaidRoute> => {
+  const routes: Record<string, PaidRoute> = {};
+  for (const tool of createToolRegistry().getAll()) {
+    const price = getToolPrice(tool.name);
+    if (price) {
+      routes[`GET /mcp/${tool.metadata.restPath}`] = { ...price, toolName: tool.name };
+      routes[`POST /mcp/${tool.metadata.restPath}`] = { ...price, toolName: tool.name };
+    }
+  }
+  return routes;
+};
+
+// Helper to convert a "$0.1"-style price to atomic USDC units ("100000")
+export const toAtomicAmount = (price: string, decimals: number = 6): string => {
+  const amount = Number(price.replace(/^\$/, ""));
+  return String(Math.round(amount * 10 ** decimals));
+};
+
+// Helper to format atomic USDC units back to a "$0.1"-style price
+export const formatAtomicAmount = (amount: number, decimals: number = 6): string => {
+  return `$${Number((amount / 10 ** decimals).toFixed(decimals))}`;
+};
+
+// Helper to read a top-up amount ("5", "$5" or 5) as a "$5" price, or
+// undefined when it is not a number within the credit limits
+export const parseTopUpAmount = (value: unknown): string | undefined => {
+  const amount = typeof value === "number" ? value : Number(String(value ?? "").replace(/^\$/, ""));
+  const { minTopUp, maxTopUp } = PAYMENT_CONFIG.credits;
+  if (!value || !Number.isFinite(amount) || amount < Number(minTopUp.slice(1)) || amount > Number(maxTopUp.slice(1))) {
+    return undefined;
+  }
+  return `$${Number(amount.toFixed(6))}`;
+};
+
+// Helper to add up "$0.5"-style prices, rounded to USDC's 6 decimals
+export const sumPrices = (prices: string[]): string => {
+  const amount = prices.reduce((total, price) => total + Number(price.replace(/^\$/, "")), 0);
+  return `$${Number(amount.toFixed(6))}`;
+};
+
+// Helper to price one JSON-RPC call: tools/call costs the tool's catalog
+// price, discovery and every other method are free (undefined)
+export const getJsonRpcCallPrice = (method: string, params?: any): PriceConfig | undefined => {
+  if (method !== "tools/call" || typeof params?.name !== "string") {
+    return undefined;
+  }
+  return getToolPrice(params.name);
+};
+
+// Helper to check if the built-in mock facilitator is on (never in production)
+export const isMockFacilitatorEnabled = (): boolean => {
+  return process.env.MOCK_FACILITATOR === "true" && process.env.NODE_ENV !== "production";
+};
+
+// Helper to check if payments go to the mock facilitator (FACILITATOR_URL
+// not set), so signing with test wallets cannot reach a real facilitator
+export const isMockFacilitatorActive = (): boolean => {
+  return isMockFacilitatorEnabled() && !process.env.FACILITATOR_URL;
+};
+
+// Helper to get facilitator URL from env, falling back to the mock
+// facilitator this server hosts at /facilitator when it is enabled
+export const getFacilitatorUrl = (): Resource | undefined => {
+  if (process.env.FACILITATOR_URL) {
+    return process.env.FACILITATOR_URL as Resource;
+  }
+  if (isMockFacilitatorEnabled()) {
+    return `http://localhost:${process.env.PORT || 3000}/facilitator`;
+  }
+  return undefined;
 };
 
 // Helper to check if payment is configured
 export const isPaymentConfigured = (): boolean => {
-  return !!(getFacilitatorUrl() && getPaymentAddress());
+  return !!(getFacilitatorUrl() && getPaymentOptions().length > 0);
 };
@@ -0,0 +1,195 @@
+import { MCPServer } from "../server.js";
+import { ToolValidationError } from "../tools/index.js";
+import { getPromptLibrary, PromptArgumentError } from "../prompts/index.js";
+
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  method: string;
+  params?: any;
+  id?: JsonRpcId;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  result?: unknown;
+  error?: {
+    code: number;
+    message: string;
+    data?: unknown;
+  };
+  id: JsonRpcId;
+}
+
+export const JSON_RPC_ERRORS = {
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+} as const;
+
+export class JsonRpcError extends Error {
+  constructor(public code: number, message: string, public data?: unknown) {
+    super(message);
+    this.name = "JsonRpcError";
+  }
+}
+
+const isValidId = (id: unknown): id is JsonRpcId => {
+  return id === null || typeof id === "string" || typeof id === "number";
+};
+
+const isJsonRpcRequest = (message: unknown): message is JsonRpcRequest => {
+  if (typeof message !== "object" || message === null || Array.isArray(message)) {
+    return false;
+  }
+  const { jsonrpc, method, id } = message as Record<string, unknown>;
+  return jsonrpc === "2.0" && typeof method === "string" && (id === undefined || isValidId(id));
+};
+
+// A request without an id is a notification: it is processed but never answered
+export const isNotification = (message: JsonRpcRequest): boolean => {
+  return message.id === undefined;
+};
+
+// Valid requests in a single or batch body, notifications included
+export const getJsonRpcMessages = (body: unknown): JsonRpcRequest[] => {
+  const messages = Array.isArray(body) ? body : [body];
+  return messages.filter((message): message is JsonRpcRequest => isJsonRpcRequest(message));
+};
+
+// Valid requests in a single or batch body that expect a response
+export const getJsonRpcCalls = (body: unknown): JsonRpcRequest[] => {
+  return getJsonRpcMessages(body).filter((message) => !isNotification(message));
+};
+
+// HTTP status for a single (non-batch) error response
+export const getHttpStatusForError = (code: number): number => {
+  switch (code) {
+    case JSON_RPC_ERRORS.METHOD_NOT_FOUND:
+      return 501;
+    case JSON_RPC_ERRORS.INTERNAL_ERROR:
+      return 500;
+    default:
+      return 400;
+  }
+};
+
+export class JsonRpcController {
+  private mcpServer: MCPServer;
+  private methods: Record<string, (params: any) => unknown>;
+
+  constructor() {
+    this.mcpServer = new MCPServer();
+    this.methods = {
+      "initialize": (params) => this.mcpServer.getInitializeResult(params?.protocolVersion),
+      "notifications/initialized": () => ({}),
+      "ping": () => ({}),
+      "tools/list": () => ({ tools: this.mcpServer.getTools() }),
+      "prompts/list": () => ({ prompts: this.mcpServer.getPrompts() }),
+      "resources/list": () => ({ resources: this.mcpServer.getResources() }),
+      "resources/templates/list": () => ({ resourceTemplates: this.mcpServer.getResourceTemplates() }),
+      "tools/call": (params) => {
+        const { name, arguments: toolArgs } = params || {};
+        if (!name) {
+          throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, "Invalid params: 'name' is required");
+        }
+        return this.mcpServer.callTool(name, toolArgs || {});
+      },
+      "prompts/get": (params) => {
+        const { name, arguments: promptArgs } = params || {};
+        if (!name) {
+          throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, "Invalid params: 'name' is required");
+        }
+        if (!getPromptLibrary().has(name)) {
+          throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, `Unknown prompt: ${name}`);
+        }
+        return this.mcpServer.getPrompt(name, promptArgs);
+      },
+      "resources/read": (params) => {
+        const { uri } = params || {};
+        if (!uri) {
+          throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, "Invalid params: 'uri' is required");
+        }
+        if (!this.mcpServer.getResources().some((resource) => resource.uri === uri)) {
+          throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, `Unknown resource: ${uri}`);
+        }
+        return this.mcpServer.readResource(uri);
+      },
+      "completion/complete": (params) => {
+        const { ref, argument } = params || {};
+        if (!ref || typeof argument?.name !== "string") {
+          throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, "Invalid params: 'ref' and 'argument.name' are required");
+        }
+        // complete only throws for an unknown prompt, template or argument
+        try {
+          return this.mcpServer.complete(ref, argument.name, String(argument.value ?? ""));
+        } catch (error) {
+          throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, error instanceof Error ? error.message : String(error));
+        }
+      },
+    };
+  }
+
+  /**
+   * Handle one JSON-RPC message. Returns null for notifications,
+   * which never get a response (not even an error)
+   */
+  async handleMessage(message: unknown): Promise<JsonRpcResponse | null> {
+    if (!isJsonRpcRequest(message)) {
+      const id = (message as Record<string, unknown> | null)?.id;
+      return this.error(
+        isValidId(id) ? id : null,
+        JSON_RPC_ERRORS.INVALID_REQUEST,
+        "Invalid Request: jsonrpc must be '2.0' and method must be a string"
+      );
+    }
+
+    const { method, params } = message;
+    const id = message.id ?? null;
+    const handler = this.methods[method];
+
+    if (!handler) {
+      return isNotification(message)
+        ? null
+        : this.error(id, JSON_RPC_ERRORS.METHOD_NOT_FOUND, `Method not implemented: ${method}`);
+    }
+
+    try {
+      const result = await handler(params);
+      return isNotification(message) ? null : { jsonrpc: "2.0", result, id };
+    } catch (error) {
+      if (isNotification(message)) {
+        console.error(`❌ Error handling JSON-RPC notification ${method}:`, error);
+        return null;
+      }
+      if (error instanceof JsonRpcError) {
+        return this.error(id, error.code, error.message, error.data);
+      }
+      if (error instanceof ToolValidationError || error instanceof PromptArgumentError) {
+        return this.error(id, JSON_RPC_ERRORS.INVALID_PARAMS, error.message, { errors: error.issues });
+      }
+      // Caller errors are thrown as JsonRpcError above; anything else is ours
+      console.error(`❌ Error handling JSON-RPC method ${method}:`, error);
+      return this.error(id, JSON_RPC_ERRORS.INTERNAL_ERROR, "Internal error");
+    }
+  }
+
+  /**
+   * Handle a batch. Notifications are dropped from the output, so an
+   * all-notification batch yields an empty array (send no body)
+   */
+  async handleBatch(messages: unknown[]): Promise<JsonRpcResponse[]> {
+    const responses = await Promise.all(messages.map((message) => this.handleMessage(message)));
+    return responses.filter((response): response is JsonRpcResponse => response !== null);
+  }
+
+  private error(id: JsonRpcId, code: number, message: string, data?: unknown): JsonRpcResponse {
+    return {
+      jsonrpc: "2.0",
+      error: data === undefined ? { code, message } : { code, message, data },
+      id,
+    };
+  }
+}
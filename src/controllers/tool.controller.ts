@@ -11,6 +11,10 @@ export class ToolController {
     return await this.mcpServer.callTool("calculate", { operation, a, b });
   }
 
+  async evaluate(expression: string, variables: Record<string, number> = {}) {
+    return await this.mcpServer.callTool("evaluate", { expression, variables });
+  }
+
   async getWeather(location: string, unit: string = "celsius") {
     return await this.mcpServer.callTool("get_weather", { location, unit });
   }
@@ -19,7 +23,11 @@ export class ToolController {
     return await this.mcpServer.callTool("echo", { message });
   }
 
-  async getTimestamp(format: string = "iso") {
-    return await this.mcpServer.callTool("get_timestamp", { format });
+  async getTimestamp(format: string = "iso", timezone?: string) {
+    return await this.mcpServer.callTool("get_timestamp", { format, timezone });
+  }
+
+  async dateDiff(start: string, end?: string, timezone?: string) {
+    return await this.mcpServer.callTool("date_diff", { start, end, timezone });
   }
 }
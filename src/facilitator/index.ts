@@ -0,0 +1,39 @@
+import { preparePaymentHeader, signPaymentHeader } from "x402/client";
+import type { PaymentRequirements } from "x402/types";
+import { MockFacilitator } from "./mockFacilitator.js";
+import { getMockWalletAccount, type MockWalletName } from "./wallets.js";
+
+export { MockFacilitator } from "./mockFacilitator.js";
+export { MOCK_WALLETS, getMockWalletAccount, isMockWalletName, type MockWalletName } from "./wallets.js";
+
+let mockFacilitator: MockFacilitator | undefined;
+
+// Shared mock facilitator, so balances and used nonces persist across requests
+export const getMockFacilitator = (): MockFacilitator => {
+  mockFacilitator ??= new MockFacilitator();
+  return mockFacilitator;
+};
+
+export interface MockPaymentOptions {
+  wallet?: MockWalletName;
+  // Sign an authorization whose validity window has already closed
+  expired?: boolean;
+}
+
+/**
+ * Sign an X-PAYMENT header for the given requirements with a local test
+ * wallet, the way an x402 client would
+ */
+export const createMockPaymentHeader = async (
+  requirements: PaymentRequirements,
+  { wallet = "funded", expired = false }: MockPaymentOptions = {}
+): Promise<string> => {
+  const account = getMockWalletAccount(wallet);
+  const unsigned = preparePaymentHeader(account.address, 1, requirements);
+  if (expired) {
+    const now = Math.floor(Date.now() / 1000);
+    unsigned.payload.authorization.validAfter = String(now - 600);
+    unsigned.payload.authorization.validBefore = String(now - 60);
+  }
+  return signPaymentHeader(account, requirements, unsigned);
+};
@@ -0,0 +1,154 @@
+import { getAddress, isAddressEqual, keccak256, recoverTypedDataAddress, type Address, type Hex } from "viem";
+import { getNetworkId } from "x402/shared";
+import {
+  ExactEvmPayloadSchema,
+  SupportedEVMNetworks,
+  evm,
+  type PaymentPayload,
+  type PaymentRequirements,
+  type SettleResponse,
+  type SupportedPaymentKindsResponse,
+  type VerifyResponse,
+} from "x402/types";
+import { toAtomicAmount } from "../config/payment.config.js";
+import { MOCK_WALLETS, getMockWalletAccount, type MockWalletName } from "./wallets.js";
+
+type InvalidReason = NonNullable<VerifyResponse["invalidReason"]>;
+
+/**
+ * Offline stand-in for an x402 facilitator, for development and tests.
+ * Checks EVM "exact" payments the way a real facilitator does (EIP-712
+ * signature, recipient, amount, validity window) against mock USDC balances,
+ * and "settles" them by moving those balances and burning the nonce, so a
+ * reused payment is rejected. No chain is ever contacted.
+ */
+export class MockFacilitator {
+  // Mock USDC balances in atomic units, by lowercased address
+  private balances = new Map<string, bigint>();
+  private usedNonces = new Set<string>();
+
+  constructor() {
+    for (const name of Object.keys(MOCK_WALLETS) as MockWalletName[]) {
+      const address = getMockWalletAccount(name).address;
+      this.balances.set(address.toLowerCase(), BigInt(toAtomicAmount(MOCK_WALLETS[name].balance)));
+    }
+  }
+
+  getBalance(address: string): bigint {
+    return this.balances.get(address.toLowerCase()) ?? 0n;
+  }
+
+  async verify(payload: PaymentPayload, requirements: PaymentRequirements): Promise<VerifyResponse> {
+    const invalid = (invalidReason: InvalidReason, payer?: string): VerifyResponse => ({
+      isValid: false,
+      invalidReason,
+      payer,
+    });
+
+    if (payload.scheme !== "exact" || requirements.scheme !== "exact") {
+      return invalid("unsupported_scheme");
+    }
+    if (payload.network !== requirements.network || !SupportedEVMNetworks.includes(payload.network)) {
+      return invalid("invalid_network");
+    }
+
+    const parsed = ExactEvmPayloadSchema.safeParse(payload.payload);
+    if (!parsed.success) {
+      return invalid("invalid_payload");
+    }
+    const { signature, authorization } = parsed.data;
+    const payer = authorization.from;
+
+    let signer: Address;
+    try {
+      signer = await recoverTypedDataAddress({
+        domain: {
+          name: requirements.extra?.name as string | undefined,
+          version: requirements.extra?.version as string | undefined,
+          chainId: getNetworkId(requirements.network),
+          verifyingContract: getAddress(requirements.asset),
+        },
+        types: evm.authorizationTypes,
+        primaryType: "TransferWithAuthorization",
+        message: {
+          from: getAddress(authorization.from),
+          to: getAddress(authorization.to),
+          value: BigInt(authorization.value),
+          validAfter: BigInt(authorization.validAfter),
+          validBefore: BigInt(authorization.validBefore),
+          nonce: authorization.nonce as Hex,
+        },
+        signature: signature as Hex,
+      });
+    } catch {
+      return invalid("invalid_exact_evm_payload_signature", payer);
+    }
+    if (!isAddressEqual(signer, getAddress(payer))) {
+      return invalid("invalid_exact_evm_payload_signature", payer);
+    }
+
+    if (!isAddressEqual(getAddress(authorization.to), getAddress(requirements.payTo))) {
+      return invalid("invalid_exact_evm_payload_recipient_mismatch", payer);
+    }
+
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    if (BigInt(authorization.validAfter) > now) {
+      return invalid("invalid_exact_evm_payload_authorization_valid_after", payer);
+    }
+    if (BigInt(authorization.validBefore) <= now) {
+      return invalid("invalid_exact_evm_payload_authorization_valid_before", payer);
+    }
+
+    if (BigInt(authorization.value) < BigInt(requirements.maxAmountRequired)) {
+      return invalid("invalid_exact_evm_payload_authorization_value", payer);
+    }
+
+    // EIP-3009 nonces can only be used once
+    if (this.usedNonces.has(this.nonceKey(payer, authorization.nonce))) {
+      return invalid("invalid_transaction_state", payer);
+    }
+
+    if (this.getBalance(payer) < BigInt(authorization.value)) {
+      return invalid("insufficient_funds", payer);
+    }
+
+    return { isValid: true, payer };
+  }
+
+  async settle(payload: PaymentPayload, requirements: PaymentRequirements): Promise<SettleResponse> {
+    const verification = await this.verify(payload, requirements);
+    if (!verification.isValid) {
+      return {
+        success: false,
+        errorReason: verification.invalidReason,
+        transaction: "",
+        network: requirements.network,
+        payer: verification.payer,
+      };
+    }
+
+    const { signature, authorization } = ExactEvmPayloadSchema.parse(payload.payload);
+    const value = BigInt(authorization.value);
+    this.usedNonces.add(this.nonceKey(authorization.from, authorization.nonce));
+    this.balances.set(authorization.from.toLowerCase(), this.getBalance(authorization.from) - value);
+    this.balances.set(authorization.to.toLowerCase(), this.getBalance(authorization.to) + value);
+
+    return {
+      success: true,
+      // Stable fake transaction hash derived from the signed authorization
+      transaction: keccak256(signature as Hex),
+      network: requirements.network,
+      payer: authorization.from,
+    };
+  }
+
+  supported(): SupportedPaymentKindsResponse {
+    return {
+      kinds: SupportedEVMNetworks.map((network) => ({ x402Version: 1, scheme: "exact", network })),
+    };
+  }
+
+  private nonceKey(from: string, nonce: string): string {
+    return `${from.toLowerCase()}:${nonce.toLowerCase()}`;
+  }
+}
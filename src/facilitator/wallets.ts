@@ -0,0 +1,27 @@
+import { privateKeyToAccount } from "viem/accounts";
+
+// Local test wallets for the mock facilitator. The keys are the well-known
+// Anvil/Hardhat development keys: public knowledge, never fund them on a
+// real network.
+export const MOCK_WALLETS = {
+  // Plenty of mock USDC for any tool call
+  funded: {
+    privateKey: "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80",
+    balance: "$1000",
+  },
+  // Less than the cheapest tool: every payment fails with insufficient_funds
+  empty: {
+    privateKey: "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+    balance: "$0.01",
+  },
+} as const;
+
+export type MockWalletName = keyof typeof MOCK_WALLETS;
+
+export const isMockWalletName = (name: unknown): name is MockWalletName => {
+  return typeof name === "string" && name in MOCK_WALLETS;
+};
+
+export const getMockWalletAccount = (name: MockWalletName) => {
+  return privateKeyToAccount(MOCK_WALLETS[name].privateKey);
+};
@@ -1,56 +1,106 @@
 import { config } from "dotenv";
 import express from "express";
 import cors from "cors";
-import { paymentMiddleware } from "x402-express";
 import healthRoutes from "./routes/health.routes.js";
+import docsRoutes from "./routes/docs.routes.js";
 import mcpRoutes from "./routes/mcp.routes.js";
+import streamableRoutes from "./routes/streamable.routes.js";
+import sseRoutes from "./routes/sse.routes.js";
 import toolRoutes from "./routes/tools.routes.js";
 import testRoutes from "./routes/test.routes.js";
+import accountRoutes from "./routes/accounts.routes.js";
+import receiptRoutes from "./routes/receipts.routes.js";
+import adminRoutes from "./routes/admin.routes.js";
+import facilitatorRoutes from "./routes/facilitator.routes.js";
 import { errorHandler } from "./middleware/errorHandler.js";
-import { PAYMENT_CONFIG, getFacilitatorUrl, getPaymentAddress, isPaymentConfigured } from "./config/payment.config.js";
+import { getTrustProxySetting } from "./config/constants.js";
+import { requestIdMiddleware } from "./middleware/requestId.js";
+import { createToolRegistry } from "./tools/index.js";
+import { jsonRpcBillingGuard, jsonRpcPaymentMiddleware, resolveJsonRpcPrice } from "./middleware/jsonRpcPayment.js";
+import { createRoutePriceResolver, routePaymentMiddleware } from "./middleware/x402Payment.js";
+import { creditBillingMiddleware, topUpPaymentMiddleware } from "./middleware/creditBilling.js";
+import { freeTierMiddleware } from "./middleware/freeTier.js";
+import {
+  PAYMENT_CONFIG,
+  getFacilitatorUrl,
+  getFreeCallsPerDay,
+  getPaymentOptions,
+  isMockFacilitatorActive,
+  isMockFacilitatorEnabled,
+  isPaymentConfigured,
+} from "./config/payment.config.js";
 
 // Load environment variables
 config();
 
 const facilitatorUrl = getFacilitatorUrl();
-const payTo = getPaymentAddress();
 
 if (!isPaymentConfigured()) {
-  console.log("⚠️  Payment not configured. Set FACILITATOR_URL and ADDRESS in .env file");
+  console.log("⚠️  Payment not configured. Set FACILITATOR_URL and ADDRESS (or SOLANA_ADDRESS) in .env file");
   console.log("⚠️  Server will run without payment requirements");
 }
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+// Behind a proxy (Vercel, a load balancer), take the client IP the free tier
+// counts by from X-Forwarded-For, past the trusted hops only
+const trustProxy = getTrustProxySetting();
+if (trustProxy !== undefined) {
+  try {
+    app.set("trust proxy", trustProxy);
+  } catch (error) {
+    console.error(`❌ Invalid TRUST_PROXY "${trustProxy}"; X-Forwarded-For is ignored:`, error);
+  }
+}
+
 // Middleware
-app.use(cors());
+app.use(cors({
+  // Browser MCP clients need to read the session header set by Streamable HTTP,
+  // and paying clients their receipt, remaining credits and free calls
+  exposedHeaders: [
+    "Mcp-Session-Id",
+    "X-Credits-Balance",
+    "X-Free-Calls-Limit",
+    "X-Free-Calls-Remaining",
+    "X-Free-Calls-Reset",
+    "X-Payment-Receipt",
+    "X-Request-Id",
+  ],
+}));
+app.use(requestIdMiddleware);
 app.use(express.json());
 
 // Payment middleware for tool endpoints (if configured)
-if (facilitatorUrl && payTo) {
+if (facilitatorUrl && isPaymentConfigured()) {
   console.log("💰 Payment middleware enabled for tool endpoints");
-  app.use(
-    paymentMiddleware(
-      payTo,
-      {
-        "GET /mcp/calculate": PAYMENT_CONFIG.tools.calculate,
-        "POST /mcp/calculate": PAYMENT_CONFIG.tools.calculate,
-        "GET /mcp/weather": PAYMENT_CONFIG.tools.weather,
-        "POST /mcp/weather": PAYMENT_CONFIG.tools.weather,
-        "POST /mcp": PAYMENT_CONFIG.jsonRpc,
-      },
-      {
-        url: facilitatorUrl,
-      },
-    ),
-  );
+  const resolvers = [createRoutePriceResolver(), resolveJsonRpcPrice];
+  // Paid JSON-RPC bodies must let each result be matched to its call
+  app.use(jsonRpcBillingGuard);
+  // Each client's free calls of the day come first
+  app.use(freeTierMiddleware(resolvers, { url: facilitatorUrl }));
+  // Calls with an API key draw down prepaid credits and skip x402
+  app.use(creditBillingMiddleware(resolvers));
+  app.use(topUpPaymentMiddleware({ url: facilitatorUrl }));
+  app.use(routePaymentMiddleware({ url: facilitatorUrl }));
+  // JSON-RPC is billed per tool call, so one payment can cover a whole batch
+  app.use(jsonRpcPaymentMiddleware({ url: facilitatorUrl }));
 }
 
 // Routes
 app.use("/", healthRoutes);
+app.use("/", docsRoutes);
+app.use("/mcp", streamableRoutes);
 app.use("/mcp", mcpRoutes);
+app.use("/mcp", sseRoutes);
 app.use("/mcp", toolRoutes);
+app.use("/accounts", accountRoutes);
+app.use("/receipts", receiptRoutes);
+app.use("/admin", adminRoutes);
+if (isMockFacilitatorEnabled()) {
+  // Offline x402 facilitator with local test wallets (MOCK_FACILITATOR=true)
+  app.use("/facilitator", facilitatorRoutes);
+}
 app.use("/test", testRoutes);
 
 // Error handling middleware
@@ -66,10 +116,18 @@ app.listen(PORT, () => {
   // Payment status
   if (isPaymentConfigured()) {
     console.log(`\n💰 Payment: ENABLED (Coinbase x402)`);
-    console.log(`   Network: base-sepolia`);
-    console.log(`   Calculate: ${PAYMENT_CONFIG.tools.calculate.price}`);
-    console.log(`   Weather: ${PAYMENT_CONFIG.tools.weather.price}`);
-    console.log(`   JSON-RPC: ${PAYMENT_CONFIG.jsonRpc.price}`);
+    if (isMockFacilitatorActive()) {
+      console.log(`   Facilitator: MOCK at ${facilitatorUrl} (test wallets, no real funds)`);
+    }
+    for (const option of getPaymentOptions()) {
+      console.log(`   Network: ${option.network} (${option.asset.symbol}, pay to ${option.payTo})`);
+    }
+    for (const [toolName, { price }] of Object.entries(PAYMENT_CONFIG.tools)) {
+      const freeCalls = getFreeCallsPerDay(toolName);
+      console.log(`   ${toolName}: ${price}${freeCalls > 0 ? ` (${freeCalls} free calls per client per day)` : ""}`);
+    }
+    console.log(`   JSON-RPC: tools/call at the tool's price, discovery free (batches supported)`);
+    console.log(`   Prepaid credits: top up ${PAYMENT_CONFIG.credits.minTopUp}-${PAYMENT_CONFIG.credits.maxTopUp} once, then pay with an API key`);
   } else {
     console.log(`\n💰 Payment: DISABLED (Configure .env to enable)`);
   }
@@ -78,25 +136,45 @@ app.listen(PORT, () => {
   console.log(`   GET  /                    - Server info and capabilities`);
   console.log(`   GET  /health              - Health check`);
   console.log(`   GET  /info                - Detailed information`);
+  console.log(`   GET  /openapi.json        - OpenAPI 3.1 document`);
+  console.log(`   GET  /docs                - Interactive API explorer`);
   console.log(`\n🔧 MCP Protocol Endpoints:`);
   console.log(`   POST /mcp/initialize      - Initialize MCP connection`);
   console.log(`   GET  /mcp/tools           - List all tools`);
   console.log(`   GET  /mcp/prompts         - List all prompts`);
   console.log(`   GET  /mcp/resources       - List all resources`);
   console.log(`\n⚙️  Tool Execution Endpoints:`);
-  console.log(`   GET  /mcp/calculate       - Calculate (query: operation, a, b)`);
-  console.log(`   POST /mcp/calculate       - Calculate (body: operation, a, b)`);
-  console.log(`   GET  /mcp/weather         - Get weather (query: location, unit)`);
-  console.log(`   POST /mcp/weather         - Get weather (body: location, unit)`);
+  for (const tool of createToolRegistry().getAll()) {
+    const params = Object.keys(tool.inputSchema.properties).join(", ");
+    console.log(`   GET/POST ${`/mcp/${tool.metadata.restPath}`.padEnd(17)}- ${tool.name} (query or body: ${params})`);
+  }
   console.log(`\n🔌 JSON-RPC Endpoint:`);
-  console.log(`   POST /mcp                 - JSON-RPC 2.0 (backward compatible)`);
-  console.log(`   POST /mcp/sse             - MCP SSE transport endpoint`);
+  console.log(`   POST /mcp                 - JSON-RPC 2.0, single or batch (backward compatible)`);
+  console.log(`   POST/GET/DELETE /mcp      - MCP Streamable HTTP (Mcp-Session-Id header)`);
+  console.log(`   GET  /mcp/sse             - MCP SSE transport (opens event stream)`);
+  console.log(`   POST /mcp/messages        - MCP SSE messages (query: sessionId)`);
+  console.log(`\n💳 Prepaid Credits:`);
+  console.log(`   POST /accounts/topup      - Buy credits with x402 (amount; opens an account without a key)`);
+  console.log(`   GET  /accounts/balance    - Credit balance (X-API-Key)`);
+  console.log(`   GET  /accounts/usage      - Usage and top-up history (X-API-Key)`);
+  console.log(`\n🧾 Payment Ledger:`);
+  console.log(`   GET  /receipts/:id        - Receipt of a paid call (X-Payment-Receipt header)`);
+  console.log(`   GET  /admin/ledger        - Query payments, JSON or ?format=csv (X-Admin-Key)`);
+  console.log(`   GET  /admin/ledger/summary - Revenue per method, tool and network (X-Admin-Key)`);
+  if (isMockFacilitatorEnabled()) {
+    console.log(`\n🧪 Mock Facilitator:`);
+    console.log(`   POST /facilitator/verify  - x402 verify (offline)`);
+    console.log(`   POST /facilitator/settle  - x402 settle (mock balances, nonce replay check)`);
+    console.log(`   GET  /facilitator/wallets - Test wallets and balances`);
+    console.log(`   POST /facilitator/sign    - Sign an X-PAYMENT header with a test wallet`);
+  }
   console.log(`\n🧪 Test Endpoints:`);
   console.log(`   GET  /test/interactive    - Interactive payment test UI`);
   console.log(`   GET  /test/payment-flow   - Payment flow documentation`);
   console.log(`   GET  /test/payment-info/:tool - Get payment details`);
-  console.log(`   POST /test/verify-payment - Mock payment verification`);
-  console.log(`   POST /test/protected-call - Simulate protected call`);
+  console.log(`   POST /test/verify-payment - Verify a payment without settling it`);
+  console.log(`   POST /test/protected-call - Call a tool with an optional X-PAYMENT header`);
+  console.log(`   POST /test/pay-and-retry  - Full payment cycle with a test wallet (mock facilitator)`);
   console.log(`\n📚 Examples:`);
   console.log(`   GET  /mcp/calculate?operation=add&a=10&b=5`);
   console.log(`   GET  /mcp/weather?location=New York&unit=celsius`);
@@ -0,0 +1,28 @@
+import { existsSync, mkdirSync, readFileSync } from "node:fs";
+import { appendFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { MemoryLedger } from "./memory.js";
+import type { LedgerEntry } from "./types.js";
+
+/**
+ * Ledger appended to a JSON Lines file, one entry per line.
+ * Entries are loaded back into memory on start for querying.
+ */
+export class FileLedger extends MemoryLedger {
+  constructor(private filePath: string) {
+    super();
+    if (existsSync(filePath)) {
+      this.entries = readFileSync(filePath, "utf8")
+        .split("\n")
+        .filter((line) => line.trim())
+        .map((line) => JSON.parse(line) as LedgerEntry);
+    } else {
+      mkdirSync(dirname(filePath), { recursive: true });
+    }
+  }
+
+  async record(entry: LedgerEntry): Promise<void> {
+    await appendFile(this.filePath, `${JSON.stringify(entry)}\n`);
+    await super.record(entry);
+  }
+}
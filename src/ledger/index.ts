@@ -0,0 +1,131 @@
+import { randomUUID } from "node:crypto";
+import { formatAtomicAmount, sumPrices, toAtomicAmount } from "../config/payment.config.js";
+import { FileLedger } from "./file.js";
+import { MemoryLedger } from "./memory.js";
+import type { LedgerEntry, PaymentItem, PaymentLedger, RefundDue } from "./types.js";
+
+export { MemoryLedger } from "./memory.js";
+export { FileLedger } from "./file.js";
+export type * from "./types.js";
+
+let ledger: PaymentLedger | undefined;
+
+// Shared ledger: a JSON Lines file when LEDGER_FILE is set, else memory.
+// Created on first use so LEDGER_FILE is read after .env is loaded.
+export const getLedger = (): PaymentLedger => {
+  ledger ??= process.env.LEDGER_FILE ? new FileLedger(process.env.LEDGER_FILE) : new MemoryLedger();
+  return ledger;
+};
+
+// Install another ledger backend
+export const setLedger = (backend: PaymentLedger) => {
+  ledger = backend;
+};
+
+export const createReceiptId = (): string => `rcpt_${randomUUID()}`;
+
+// Helper to write a settled payment to the ledger. Returns the entry at once;
+// a failed write is logged rather than failing the paid request.
+export const recordPayment = (payment: Omit<LedgerEntry, "id" | "at"> & { id?: string }): LedgerEntry => {
+  const { id, ...details } = payment;
+  const entry: LedgerEntry = {
+    id: id ?? createReceiptId(),
+    at: new Date().toISOString(),
+    ...details,
+  };
+  getLedger()
+    .record(entry)
+    .catch((error) => console.error("❌ Failed to record payment in ledger:", error));
+  return entry;
+};
+
+// Helper to describe what is owed back for failed items; the amount defaults
+// to the sum of their prices
+export const createRefundDue = (
+  items: PaymentItem[],
+  reason: string,
+  amount?: { price: string; amountAtomic: string }
+): RefundDue => {
+  const price = amount?.price ?? sumPrices(items.map((item) => item.price));
+  return {
+    price,
+    amountAtomic: amount?.amountAtomic ?? toAtomicAmount(price),
+    reason,
+    items,
+  };
+};
+
+const CSV_COLUMNS = [
+  "id", "at", "requestId", "method", "resource", "tools", "price", "amountAtomic",
+  "network", "asset", "payer", "transaction", "accountId", "refundDue",
+] as const;
+
+const csvCell = (value: string): string => {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// Helper to export entries as CSV, tools joined with ";"
+export const ledgerToCsv = (entries: LedgerEntry[]): string => {
+  const rows = entries.map((entry) =>
+    CSV_COLUMNS.map((column) => {
+      if (column === "tools") {
+        return csvCell(entry.items.map((item) => item.tool).join(";"));
+      }
+      if (column === "refundDue") {
+        return csvCell(entry.refundDue ? `${entry.refundDue.price} (${entry.refundDue.reason})` : "");
+      }
+      return csvCell(String(entry[column] ?? ""));
+    }).join(",")
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+};
+
+// Helper to total entries per method, tool and network. Top-ups count
+// towards x402 revenue only; tool revenue comes from x402 and credit payments
+// and leaves out failed calls. Refunds due are totalled per method.
+export const summarizeLedger = (entries: LedgerEntry[]) => {
+  const add = (totals: Record<string, { count: number; amount: number }>, key: string, amount: number) => {
+    totals[key] ??= { count: 0, amount: 0 };
+    totals[key].count += 1;
+    totals[key].amount += amount;
+  };
+
+  const byMethod: Record<string, { count: number; amount: number }> = {};
+  const byTool: Record<string, { count: number; amount: number }> = {};
+  const byNetwork: Record<string, { count: number; amount: number }> = {};
+  const refundsDue: Record<string, { count: number; amount: number }> = {};
+
+  for (const entry of entries) {
+    add(byMethod, entry.method, Number(entry.amountAtomic));
+    if (entry.network) {
+      add(byNetwork, entry.network, Number(entry.amountAtomic));
+    }
+    // Failed calls awaiting a refund earned nothing for their tool
+    const failed = [...(entry.refundDue?.items ?? [])];
+    for (const item of entry.items) {
+      const failedIndex = failed.findIndex((failedItem) => failedItem.tool === item.tool);
+      if (failedIndex >= 0) {
+        failed.splice(failedIndex, 1);
+      } else {
+        add(byTool, item.tool, Number(toAtomicAmount(item.price)));
+      }
+    }
+    if (entry.refundDue) {
+      add(refundsDue, entry.method, Number(entry.refundDue.amountAtomic));
+    }
+  }
+
+  const format = (totals: Record<string, { count: number; amount: number }>) =>
+    Object.fromEntries(
+      Object.entries(totals).map(([key, { count, amount }]) => [key, { count, revenue: formatAtomicAmount(amount) }])
+    );
+
+  return {
+    entries: entries.length,
+    byMethod: format(byMethod),
+    byTool: format(byTool),
+    byNetwork: format(byNetwork),
+    // Owed back to payers; not subtracted from the revenue above
+    refundsDue: format(refundsDue),
+  };
+};
@@ -0,0 +1,33 @@
+import type { LedgerEntry, LedgerFilter, PaymentLedger } from "./types.js";
+
+const matches = (entry: LedgerEntry, filter: LedgerFilter): boolean => {
+  return (
+    (!filter.tool || entry.items.some((item) => item.tool === filter.tool)) &&
+    (!filter.method || entry.method === filter.method) &&
+    (!filter.network || entry.network === filter.network) &&
+    (!filter.payer || entry.payer?.toLowerCase() === filter.payer.toLowerCase()) &&
+    (filter.refundDue === undefined || !!entry.refundDue === filter.refundDue) &&
+    (!filter.from || entry.at >= filter.from) &&
+    (!filter.to || entry.at <= filter.to)
+  );
+};
+
+/**
+ * Ledger kept in memory; lost on restart
+ */
+export class MemoryLedger implements PaymentLedger {
+  protected entries: LedgerEntry[] = [];
+
+  async record(entry: LedgerEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+
+  async get(id: string): Promise<LedgerEntry | undefined> {
+    return this.entries.find((entry) => entry.id === id);
+  }
+
+  async query(filter: LedgerFilter = {}): Promise<LedgerEntry[]> {
+    const found = this.entries.filter((entry) => matches(entry, filter)).reverse();
+    return filter.limit ? found.slice(0, filter.limit) : found;
+  }
+}
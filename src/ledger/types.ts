@@ -0,0 +1,65 @@
+// A tool a payment was for, and its share of the price
+export type PaymentItem = {
+  tool: string;
+  price: string;
+};
+
+export type PaymentMethod = "x402" | "credits";
+
+// Part of a settled payment that bought nothing (the tool call failed after
+// the payment settled) and is owed back to the payer
+export type RefundDue = {
+  price: string;
+  amountAtomic: string;
+  reason: string;
+  // Failed tool calls, empty when the payment was not for tools (top-ups)
+  items: PaymentItem[];
+};
+
+// One settled payment. The id doubles as the receipt id handed to the client.
+export type LedgerEntry = {
+  id: string;
+  at: string;
+  requestId: string;
+  method: PaymentMethod;
+  // Route paid for, e.g. "GET /mcp/calculate"
+  resource: string;
+  description: string;
+  // Empty for credit top-ups, which pay for no tool
+  items: PaymentItem[];
+  price: string;
+  // Atomic units of the asset paid in (USDC: 6 decimals)
+  amountAtomic: string;
+  network?: string;
+  asset?: string;
+  payer?: string;
+  // On-chain transaction for x402 payments
+  transaction?: string;
+  // Credits account charged, or topped up
+  accountId?: string;
+  refundDue?: RefundDue;
+};
+
+export type LedgerFilter = {
+  tool?: string;
+  method?: PaymentMethod;
+  network?: string;
+  payer?: string;
+  // Only entries with (true) or without (false) a refund due
+  refundDue?: boolean;
+  // ISO timestamps, inclusive
+  from?: string;
+  to?: string;
+  limit?: number;
+};
+
+/**
+ * Where settled payments are written. Implement this to plug in another
+ * backend (database, queue, ...) and install it with setLedger().
+ */
+export interface PaymentLedger {
+  record(entry: LedgerEntry): Promise<void>;
+  get(id: string): Promise<LedgerEntry | undefined>;
+  // Matching entries, newest first
+  query(filter?: LedgerFilter): Promise<LedgerEntry[]>;
+}
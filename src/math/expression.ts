@@ -0,0 +1,412 @@
+/**
+ * Arithmetic expression parser and evaluator. Expressions are tokenized and
+ * parsed into a syntax tree by a small recursive-descent parser, then walked;
+ * nothing is ever passed to eval or Function, and only the operators,
+ * constants and functions below exist.
+ *
+ * Grammar, loosest binding first:
+ *   expression = term (("+" | "-") term)*
+ *   term       = unary (("*" | "/" | "%") unary)*
+ *   unary      = ("-" | "+") unary | power
+ *   power      = postfix (("^" | "**") unary)?      right associative
+ *   postfix    = primary "!"*
+ *   primary    = number | name | name "(" arguments ")" | "(" expression ")"
+ */
+
+export type AngleUnit = "radians" | "degrees";
+
+export type ExpressionErrorReason = "syntax" | "unknown_name" | "division_by_zero" | "domain";
+
+/**
+ * Thrown for expressions that cannot be parsed or evaluated
+ */
+export class ExpressionError extends Error {
+  constructor(public reason: ExpressionErrorReason, message: string, public position?: number) {
+    super(position === undefined ? message : `${message} at position ${position + 1}`);
+    this.name = "ExpressionError";
+  }
+}
+
+export interface EvaluateOptions {
+  variables?: Record<string, number>;
+  angleUnit?: AngleUnit;
+  // Decimal places of the result and steps (default: 15 significant digits,
+  // enough to hide floating point noise such as 0.1 + 0.2)
+  precision?: number;
+  // Record each operation as it is evaluated
+  steps?: boolean;
+}
+
+export interface Evaluation {
+  result: number;
+  steps?: string[];
+}
+
+// Longest expression accepted, and deepest nesting of parentheses and signs
+export const MAX_EXPRESSION_LENGTH = 1000;
+const MAX_DEPTH = 100;
+const MAX_STEPS = 200;
+// Largest n whose factorial is a finite double
+const MAX_FACTORIAL = 170;
+
+export const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+  tau: 2 * Math.PI,
+  phi: (1 + Math.sqrt(5)) / 2,
+};
+
+interface MathFunction {
+  // Accepted argument counts, inclusive
+  arity: [number, number];
+  evaluate: (...args: number[]) => number;
+  // Trigonometric functions: "input" takes an angle, "output" returns one
+  angle?: "input" | "output";
+}
+
+export const FUNCTIONS: Record<string, MathFunction> = {
+  abs: { arity: [1, 1], evaluate: Math.abs },
+  sign: { arity: [1, 1], evaluate: Math.sign },
+  sqrt: { arity: [1, 1], evaluate: Math.sqrt },
+  cbrt: { arity: [1, 1], evaluate: Math.cbrt },
+  // n-th root; odd roots of negative numbers stay real
+  root: {
+    arity: [2, 2],
+    evaluate: (x, n) => (x < 0 && Number.isInteger(n) && n % 2 !== 0 ? -Math.pow(-x, 1 / n) : Math.pow(x, 1 / n)),
+  },
+  pow: { arity: [2, 2], evaluate: Math.pow },
+  exp: { arity: [1, 1], evaluate: Math.exp },
+  ln: { arity: [1, 1], evaluate: Math.log },
+  // Base 10, or log(x, base)
+  log: { arity: [1, 2], evaluate: (x, base) => (base === undefined ? Math.log10(x) : Math.log(x) / Math.log(base)) },
+  log2: { arity: [1, 1], evaluate: Math.log2 },
+  log10: { arity: [1, 1], evaluate: Math.log10 },
+  sin: { arity: [1, 1], evaluate: Math.sin, angle: "input" },
+  cos: { arity: [1, 1], evaluate: Math.cos, angle: "input" },
+  tan: { arity: [1, 1], evaluate: Math.tan, angle: "input" },
+  asin: { arity: [1, 1], evaluate: Math.asin, angle: "output" },
+  acos: { arity: [1, 1], evaluate: Math.acos, angle: "output" },
+  atan: { arity: [1, 1], evaluate: Math.atan, angle: "output" },
+  atan2: { arity: [2, 2], evaluate: Math.atan2, angle: "output" },
+  sinh: { arity: [1, 1], evaluate: Math.sinh },
+  cosh: { arity: [1, 1], evaluate: Math.cosh },
+  tanh: { arity: [1, 1], evaluate: Math.tanh },
+  floor: { arity: [1, 1], evaluate: Math.floor },
+  ceil: { arity: [1, 1], evaluate: Math.ceil },
+  round: { arity: [1, 1], evaluate: Math.round },
+  trunc: { arity: [1, 1], evaluate: Math.trunc },
+  min: { arity: [1, Infinity], evaluate: Math.min },
+  max: { arity: [1, Infinity], evaluate: Math.max },
+  hypot: { arity: [1, Infinity], evaluate: Math.hypot },
+};
+
+type Token =
+  | { type: "number"; value: number; position: number }
+  | { type: "name"; value: string; position: number }
+  | { type: "operator"; value: string; position: number }
+  | { type: "(" | ")" | "," | "end"; position: number };
+
+type Node =
+  | { type: "number"; value: number }
+  | { type: "name"; name: string; position: number }
+  | { type: "unary"; operator: "-" | "+"; operand: Node }
+  | { type: "binary"; operator: string; left: Node; right: Node; position: number }
+  | { type: "factorial"; operand: Node; position: number }
+  | { type: "call"; name: string; args: Node[]; position: number };
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    const number = source.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+    if (number) {
+      tokens.push({ type: "number", value: Number(number[0]), position: i });
+      i += number[0].length;
+      continue;
+    }
+    const name = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (name) {
+      tokens.push({ type: "name", value: name[0], position: i });
+      i += name[0].length;
+      continue;
+    }
+    if (source.startsWith("**", i)) {
+      tokens.push({ type: "operator", value: "^", position: i });
+      i += 2;
+      continue;
+    }
+    if ("+-*/%^!".includes(char)) {
+      tokens.push({ type: "operator", value: char, position: i });
+    } else if (char === "(" || char === ")" || char === ",") {
+      tokens.push({ type: char, position: i });
+    } else {
+      throw new ExpressionError("syntax", `Unexpected character "${char}"`, i);
+    }
+    i++;
+  }
+  tokens.push({ type: "end", position: source.length });
+  return tokens;
+};
+
+const parse = (source: string): Node => {
+  const tokens = tokenize(source);
+  let index = 0;
+  let depth = 0;
+
+  const peek = () => tokens[index];
+  const isOperator = (...operators: string[]) => {
+    const token = peek();
+    return token.type === "operator" && operators.includes(token.value);
+  };
+  const expect = (type: ")" | ",", what: string) => {
+    const token = peek();
+    if (token.type !== type) {
+      throw new ExpressionError("syntax", `Expected ${what}`, token.position);
+    }
+    index++;
+  };
+  const nest = <T>(parseNested: () => T): T => {
+    if (++depth > MAX_DEPTH) {
+      throw new ExpressionError("syntax", `Expression is nested more than ${MAX_DEPTH} levels deep`, peek().position);
+    }
+    const node = parseNested();
+    depth--;
+    return node;
+  };
+
+  const parseExpression = (): Node => {
+    let node = parseTerm();
+    while (isOperator("+", "-")) {
+      const { value, position } = tokens[index++] as Extract<Token, { type: "operator" }>;
+      node = { type: "binary", operator: value, left: node, right: parseTerm(), position };
+    }
+    return node;
+  };
+
+  const parseTerm = (): Node => {
+    let node = parseUnary();
+    while (isOperator("*", "/", "%")) {
+      const { value, position } = tokens[index++] as Extract<Token, { type: "operator" }>;
+      node = { type: "binary", operator: value, left: node, right: parseUnary(), position };
+    }
+    return node;
+  };
+
+  const parseUnary = (): Node => {
+    if (isOperator("-", "+")) {
+      const operator = (tokens[index++] as Extract<Token, { type: "operator" }>).value as "-" | "+";
+      return { type: "unary", operator, operand: nest(parseUnary) };
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): Node => {
+    const base = parsePostfix();
+    if (isOperator("^")) {
+      const { position } = tokens[index++];
+      return { type: "binary", operator: "^", left: base, right: nest(parseUnary), position };
+    }
+    return base;
+  };
+
+  const parsePostfix = (): Node => {
+    let node = parsePrimary();
+    while (isOperator("!")) {
+      node = { type: "factorial", operand: node, position: tokens[index++].position };
+    }
+    return node;
+  };
+
+  const parsePrimary = (): Node => {
+    const token = tokens[index++];
+    switch (token.type) {
+      case "number":
+        return { type: "number", value: token.value };
+      case "name": {
+        if (peek().type !== "(") {
+          return { type: "name", name: token.value, position: token.position };
+        }
+        index++;
+        const args: Node[] = [];
+        if (peek().type !== ")") {
+          args.push(nest(parseExpression));
+          while (peek().type === ",") {
+            index++;
+            args.push(nest(parseExpression));
+          }
+        }
+        expect(")", `")" to close ${token.value}(`);
+        return { type: "call", name: token.value, args, position: token.position };
+      }
+      case "(": {
+        const node = nest(parseExpression);
+        expect(")", `")"`);
+        return node;
+      }
+      case "end":
+        throw new ExpressionError("syntax", "Unexpected end of expression", token.position);
+      default:
+        throw new ExpressionError(
+          "syntax",
+          `Unexpected "${token.type === "operator" ? token.value : token.type}"`,
+          token.position
+        );
+    }
+  };
+
+  const tree = parseExpression();
+  const rest = peek();
+  if (rest.type !== "end") {
+    throw new ExpressionError("syntax", "Unexpected input after the expression", rest.position);
+  }
+  return tree;
+};
+
+// Helper to round a value the way results are reported
+export const roundResult = (value: number, precision?: number): number => {
+  const rounded = precision === undefined ? Number(value.toPrecision(15)) : Number(value.toFixed(precision));
+  // Avoid reporting -0
+  return rounded === 0 ? 0 : rounded;
+};
+
+// Helper to check a variable name can be used (not a constant or function)
+export const isReservedName = (name: string): boolean => {
+  return Object.hasOwn(CONSTANTS, name) || Object.hasOwn(FUNCTIONS, name);
+};
+
+/**
+ * Evaluate an expression such as "(a + b) * c" or "sqrt(x^2 + y^2)"
+ */
+export const evaluateExpression = (expression: string, options: EvaluateOptions = {}): Evaluation => {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError("syntax", `Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+  for (const name of Object.keys(options.variables ?? {})) {
+    if (isReservedName(name)) {
+      throw new ExpressionError("syntax", `Variable name "${name}" is reserved for a constant or function`);
+    }
+  }
+
+  const tree = parse(expression);
+  const { variables = {}, angleUnit = "radians", precision } = options;
+  const steps: string[] = [];
+  const format = (value: number) => String(roundResult(value, precision));
+  const record = (step: string) => {
+    if (options.steps && steps.length < MAX_STEPS) {
+      steps.push(step);
+    }
+  };
+
+  const finite = (value: number, description: string): number => {
+    if (Number.isNaN(value)) {
+      throw new ExpressionError("domain", `${description} is undefined`);
+    }
+    if (!Number.isFinite(value)) {
+      throw new ExpressionError("domain", `${description} overflows`);
+    }
+    return value;
+  };
+
+  const evaluate = (node: Node): number => {
+    switch (node.type) {
+      case "number":
+        return node.value;
+
+      case "name": {
+        if (Object.hasOwn(variables, node.name)) {
+          return variables[node.name];
+        }
+        if (Object.hasOwn(CONSTANTS, node.name)) {
+          return CONSTANTS[node.name];
+        }
+        throw new ExpressionError("unknown_name", `Unknown variable "${node.name}"`, node.position);
+      }
+
+      case "unary": {
+        const value = evaluate(node.operand);
+        return node.operator === "-" ? -value : value;
+      }
+
+      case "factorial": {
+        const value = evaluate(node.operand);
+        if (!Number.isInteger(value) || value < 0 || value > MAX_FACTORIAL) {
+          throw new ExpressionError(
+            "domain",
+            `Factorial needs a whole number from 0 to ${MAX_FACTORIAL}, got ${format(value)}`,
+            node.position
+          );
+        }
+        let result = 1;
+        for (let i = 2; i <= value; i++) {
+          result *= i;
+        }
+        record(`${format(value)}! = ${format(result)}`);
+        return result;
+      }
+
+      case "binary": {
+        const left = evaluate(node.left);
+        const right = evaluate(node.right);
+        const description = `${format(left)} ${node.operator} ${format(right)}`;
+        let result: number;
+        switch (node.operator) {
+          case "+":
+            result = left + right;
+            break;
+          case "-":
+            result = left - right;
+            break;
+          case "*":
+            result = left * right;
+            break;
+          case "/":
+          case "%":
+            if (right === 0) {
+              throw new ExpressionError("division_by_zero", "Division by zero is not allowed", node.position);
+            }
+            result = node.operator === "/" ? left / right : left % right;
+            break;
+          default:
+            result = Math.pow(left, right);
+        }
+        finite(result, description);
+        record(`${description} = ${format(result)}`);
+        return result;
+      }
+
+      case "call": {
+        const fn = Object.hasOwn(FUNCTIONS, node.name) ? FUNCTIONS[node.name] : undefined;
+        if (!fn) {
+          throw new ExpressionError("unknown_name", `Unknown function "${node.name}"`, node.position);
+        }
+        const [min, max] = fn.arity;
+        if (node.args.length < min || node.args.length > max) {
+          const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`;
+          throw new ExpressionError(
+            "syntax",
+            `${node.name}() takes ${expected} argument${min === 1 && max === 1 ? "" : "s"}, got ${node.args.length}`,
+            node.position
+          );
+        }
+        const args = node.args.map(evaluate);
+        const toRadians = fn.angle === "input" && angleUnit === "degrees";
+        let result = fn.evaluate(...(toRadians ? args.map((arg) => (arg * Math.PI) / 180) : args));
+        if (fn.angle === "output" && angleUnit === "degrees") {
+          result = (result * 180) / Math.PI;
+        }
+        const description = `${node.name}(${args.map(format).join(", ")})`;
+        finite(result, description);
+        record(`${description} = ${format(result)}`);
+        return result;
+      }
+    }
+  };
+
+  const result = roundResult(evaluate(tree), precision);
+  return options.steps ? { result, steps } : { result };
+};
@@ -0,0 +1,13 @@
+export {
+  CONSTANTS,
+  ExpressionError,
+  FUNCTIONS,
+  MAX_EXPRESSION_LENGTH,
+  evaluateExpression,
+  isReservedName,
+  roundResult,
+  type AngleUnit,
+  type EvaluateOptions,
+  type Evaluation,
+  type ExpressionErrorReason,
+} from "./expression.js";
@@ -0,0 +1,158 @@
+import { Request, Response, NextFunction } from "express";
+import { getAccountStore, getApiKey } from "../accounts/index.js";
+import { createReceiptId, recordPayment } from "../ledger/index.js";
+import { formatAtomicAmount, parseTopUpAmount, toAtomicAmount } from "../config/payment.config.js";
+import type { PaymentItem } from "../ledger/index.js";
+import { captureResponseBody, holdResponse } from "./responseCapture.js";
+import {
+  assessPaymentOutcome,
+  x402PaymentMiddleware,
+  type FacilitatorConfig,
+  type PaymentOutcome,
+  type PriceResolver,
+} from "./x402Payment.js";
+
+// How a request was paid for when it did not go through x402
+export interface CreditBilling {
+  method: "credits";
+  accountId: string;
+}
+
+const TOP_UP_PATH = "/accounts/topup";
+
+// Helper to drop one occurrence of each removed item
+const removeItems = (items: PaymentItem[], removed: PaymentItem[]): PaymentItem[] => {
+  const remaining = [...items];
+  for (const item of removed) {
+    const index = remaining.findIndex((candidate) => candidate.tool === item.tool);
+    if (index >= 0) {
+      remaining.splice(index, 1);
+    }
+  }
+  return remaining;
+};
+
+/**
+ * Prepaid credit billing: a request carrying an API key is charged to its
+ * account instead of asking for an x402 payment. Mounted before the x402
+ * middleware, which skips requests billed here.
+ *
+ * The price is held when the request starts and refunded for whatever the
+ * request failed to deliver (HTTP error, isError result, failed calls in a
+ * JSON-RPC batch), the same rule x402 settlement follows. The response is
+ * held until then so X-Credits-Balance shows the balance after any refund.
+ */
+export const creditBillingMiddleware = (resolvers: PriceResolver[]) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const apiKey = getApiKey(req.headers);
+    // No key, or already covered by the free tier
+    if (!apiKey || res.locals.billing) {
+      return next();
+    }
+
+    const quote = resolvers.map((resolve) => resolve(req)).find((quote) => quote !== undefined);
+    if (!quote) {
+      return next();
+    }
+
+    const store = getAccountStore();
+    const account = store.findByApiKey(apiKey);
+    if (!account) {
+      return res.status(401).json({
+        error: "INVALID_API_KEY",
+        message: "Unknown API key",
+      });
+    }
+
+    const hold = store.hold(account.id, Number(toAtomicAmount(quote.pricing.price)), quote.description);
+    if (!hold) {
+      return res.status(402).json({
+        error: "INSUFFICIENT_CREDITS",
+        message: `This call costs ${quote.pricing.price} but the balance is ${formatAtomicAmount(account.balance)}`,
+        price: quote.pricing.price,
+        balance: formatAtomicAmount(account.balance),
+        topUp: `POST ${TOP_UP_PATH}`,
+      });
+    }
+
+    res.locals.billing = { method: "credits", accountId: account.id } satisfies CreditBilling;
+    const resource = `${req.method.toUpperCase()} ${req.path}`;
+
+    // Only the first of the handler ending and the client going away counts
+    const held = holdResponse(res);
+    const getResponseBody = quote.failedItems ? captureResponseBody(res) : undefined;
+    let released = false;
+    const release = (outcome: PaymentOutcome) => {
+      if (released) {
+        return;
+      }
+      released = true;
+      // Failed calls are refunded to the balance straight away
+      const refunded = outcome.delivered
+        ? Math.min(outcome.failedItems.reduce((total, item) => total + Number(toAtomicAmount(item.price)), 0), hold.amount)
+        : hold.amount;
+      store.release(hold, refunded);
+      if (refunded < hold.amount) {
+        const receiptId = createReceiptId();
+        const charged = removeItems(quote.items, outcome.failedItems);
+        recordPayment({
+          id: receiptId,
+          requestId: res.locals.requestId ?? "",
+          method: "credits",
+          resource,
+          description: quote.description,
+          items: charged,
+          price: formatAtomicAmount(hold.amount - refunded),
+          amountAtomic: String(hold.amount - refunded),
+          accountId: account.id,
+        });
+        // Only charged calls get a receipt; a full refund leaves nothing to look up
+        if (!res.headersSent) {
+          res.setHeader("X-Payment-Receipt", receiptId);
+        }
+      }
+    };
+    held.ended.then((handlerEnded) => {
+      if (!handlerEnded) {
+        return release({ delivered: false, failedItems: quote.items });
+      }
+      release(assessPaymentOutcome(quote, res.statusCode, getResponseBody?.()));
+      res.setHeader("X-Credits-Balance", formatAtomicAmount(account.balance));
+      held.replay();
+    });
+
+    next();
+  };
+};
+
+// Prices a top-up at the amount it asks for, from the body or the query
+const resolveTopUpPrice: PriceResolver = (req) => {
+  if (req.method !== "POST" || req.path.replace(/\/+$/, "").toLowerCase() !== TOP_UP_PATH) {
+    return undefined;
+  }
+  const price = parseTopUpAmount(req.body?.amount ?? req.query.amount);
+  return price ? { pricing: { price }, description: `Prepaid credits top-up (${price})`, items: [] } : undefined;
+};
+
+/**
+ * x402 payment for credit top-ups. Settles before the handler runs so
+ * credits are only granted against settled funds, and rejects an unknown
+ * API key before any payment is taken.
+ */
+export const topUpPaymentMiddleware = (facilitator: FacilitatorConfig) => {
+  const payment = x402PaymentMiddleware(facilitator, resolveTopUpPrice, { settleBeforeHandler: true });
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!resolveTopUpPrice(req)) {
+      return next();
+    }
+    const apiKey = getApiKey(req.headers);
+    if (apiKey && !getAccountStore().findByApiKey(apiKey)) {
+      return res.status(401).json({
+        error: "INVALID_API_KEY",
+        message: "Unknown API key; omit it to open a new account",
+      });
+    }
+    return payment(req, res, next);
+  };
+};
@@ -1,6 +1,15 @@
 import { Request, Response, NextFunction } from "express";
 
 export const errorHandler = (err: Error, req: Request, res: Response, next: NextFunction) => {
+  // Client errors raised by middleware (e.g. a malformed JSON body) keep their status
+  const status = (err as Error & { status?: number }).status;
+  if (status && status >= 400 && status < 500) {
+    return res.status(status).json({
+      error: "Bad request",
+      message: err.message,
+    });
+  }
+
   console.error("❌ Server error:", err);
   res.status(500).json({
     error: "Internal server error",
@@ -0,0 +1,85 @@
+import { Request, Response, NextFunction } from "express";
+import { useFacilitator } from "x402/verify";
+import { getFreeCallsPerDay } from "../config/payment.config.js";
+import { getFreeTierClientId, getFreeTierStore } from "../quota/index.js";
+import { captureResponseBody } from "./responseCapture.js";
+import {
+  assessPaymentOutcome,
+  type FacilitatorConfig,
+  type PaymentOutcome,
+  type PriceResolver,
+} from "./x402Payment.js";
+
+// How a request was paid for when it used the free tier
+export interface FreeTierBilling {
+  method: "free";
+  clientId: string;
+}
+
+/**
+ * Free tier: each client (API key account, else the wallet of an X-PAYMENT
+ * header the facilitator verifies, else IP) gets a number of free
+ * calls per tool per UTC day before credits or x402 payment apply. Mounted
+ * before credit billing and the x402 middleware, which skip requests it lets
+ * through.
+ *
+ * Every priced tool call gets X-Free-Calls-Limit, X-Free-Calls-Remaining and
+ * X-Free-Calls-Reset headers (for a JSON-RPC batch, the tool with the fewest
+ * calls left). Free calls that fail are handed back, like refunds.
+ */
+export const freeTierMiddleware = (resolvers: PriceResolver[], facilitator: FacilitatorConfig) => {
+  const { verify } = useFacilitator(facilitator);
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const quote = resolvers.map((resolve) => resolve(req)).find((quote) => quote !== undefined);
+    const tools = quote?.items.map((item) => item.tool) ?? [];
+    if (!quote || tools.length === 0 || tools.every((tool) => getFreeCallsPerDay(tool) === 0)) {
+      return next();
+    }
+
+    let clientId: string | undefined;
+    try {
+      clientId = await getFreeTierClientId(req, quote, verify);
+    } catch (error) {
+      return next(error);
+    }
+    if (!clientId) {
+      return next();
+    }
+
+    const store = getFreeTierStore();
+    const day = store.today;
+    const granted = store.take(clientId, tools, getFreeCallsPerDay);
+
+    // The tool with the fewest free calls left decides the headers
+    const [limit, remaining] = [...new Set(tools)]
+      .map((tool) => [getFreeCallsPerDay(tool), store.remaining(clientId, tool, getFreeCallsPerDay(tool))])
+      .reduce((lowest, current) => (current[1] < lowest[1] ? current : lowest));
+    res.setHeader("X-Free-Calls-Limit", String(limit));
+    res.setHeader("X-Free-Calls-Remaining", String(remaining));
+    res.setHeader("X-Free-Calls-Reset", store.resetsAt);
+
+    if (!granted) {
+      return next();
+    }
+
+    res.locals.billing = { method: "free", clientId } satisfies FreeTierBilling;
+    console.log(`🎁 Free call for ${clientId}: ${quote.description} (${remaining} left today)`);
+
+    // "close" also fires after "finish"; only the first one counts
+    const getResponseBody = quote.failedItems ? captureResponseBody(res) : undefined;
+    let settled = false;
+    const settle = (outcome: PaymentOutcome) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      const failed = outcome.delivered ? outcome.failedItems : quote.items;
+      store.giveBack(clientId, failed.map((item) => item.tool), day);
+    };
+    res.on("finish", () => settle(assessPaymentOutcome(quote, res.statusCode, getResponseBody?.())));
+    res.on("close", () => settle({ delivered: false, failedItems: quote.items }));
+
+    next();
+  };
+};
@@ -0,0 +1,151 @@
+import { Request, Response, NextFunction } from "express";
+import type { Network } from "x402/types";
+import { getJsonRpcCallPrice, sumPrices } from "../config/payment.config.js";
+import {
+  getJsonRpcCalls,
+  getJsonRpcMessages,
+  isNotification,
+  type JsonRpcId,
+} from "../controllers/jsonrpc.controller.js";
+import type { PaymentItem } from "../ledger/index.js";
+import { normalizePath, x402PaymentMiddleware, type FacilitatorConfig, type PaymentQuote } from "./x402Payment.js";
+
+// Price a JSON-RPC body: each tools/call costs its tool's catalog price,
+// discovery methods and notifications are free (jsonRpcBillingGuard rejects
+// tools/call notifications for paid tools). A batch is payable on the
+// networks every priced tool in it accepts.
+export const resolveJsonRpcPrice = (req: Request): PaymentQuote | undefined => {
+  // Express matches "/MCP/" to the same handler as "/mcp"
+  if (req.method !== "POST" || normalizePath(req.path) !== "/mcp") {
+    return undefined;
+  }
+
+  const billable = getJsonRpcCalls(req.body).flatMap((call) => {
+    const pricing = getJsonRpcCallPrice(call.method, call.params);
+    return pricing ? [{ id: call.id, toolName: call.params.name as string, ...pricing }] : [];
+  });
+  if (billable.length === 0) {
+    return undefined;
+  }
+
+  const networks = billable.reduce<Network[] | undefined>(
+    (accepted, { networks: toolNetworks }) =>
+      !toolNetworks ? accepted : !accepted ? toolNetworks : accepted.filter((network) => toolNetworks.includes(network)),
+    undefined
+  );
+
+  return {
+    pricing: {
+      price: sumPrices(billable.map(({ price }) => price)),
+      ...(networks ? { networks } : {}),
+    },
+    description: `MCP JSON-RPC: ${billable.map(({ toolName, price }) => `${toolName} (${price})`).join(", ")}`,
+    items: billable.map(({ toolName, price }) => ({ tool: toolName, price })),
+    // A call is only paid for if it got a successful, non-isError result
+    failedItems: (responseBody: string) => {
+      const responses = new Map(parseJsonRpcResponses(responseBody).map((response) => [response.id, response]));
+      return billable
+        .filter(({ id }) => {
+          const response = responses.get(id ?? null);
+          return !response || response.error !== undefined || response.result?.isError === true;
+        })
+        .map(({ toolName, price }): PaymentItem => ({ tool: toolName, price }));
+    },
+  };
+};
+
+type JsonRpcResponseMessage = {
+  id: JsonRpcId;
+  result?: { isError?: boolean };
+  error?: unknown;
+};
+
+// Helper to read the JSON-RPC responses out of a response body, sent either
+// as plain JSON (single or batch) or as an SSE stream of "data:" events
+const parseJsonRpcResponses = (body: string): JsonRpcResponseMessage[] => {
+  const parse = (text: string): unknown[] => {
+    try {
+      const parsed = JSON.parse(text);
+      return Array.isArray(parsed) ? parsed : [parsed];
+    } catch {
+      return [];
+    }
+  };
+
+  const trimmed = body.trim();
+  const messages = trimmed.startsWith("{") || trimmed.startsWith("[")
+    ? parse(trimmed)
+    : body
+        .split(/\r?\n/)
+        .filter((line) => line.startsWith("data:"))
+        .flatMap((line) => parse(line.slice("data:".length)));
+
+  return messages.filter(
+    (message): message is JsonRpcResponseMessage =>
+      typeof message === "object" && message !== null && "id" in message && ("result" in message || "error" in message)
+  );
+};
+
+// SSE transport messages: the POST is answered 202 and results go out on the
+// event stream, so there is no response to settle a payment against
+const SSE_MESSAGES_PATH = "/mcp/messages";
+
+/**
+ * Reject JSON-RPC bodies that cannot be billed call by call. Results are
+ * matched to their calls by id, so every call in a billable body needs its
+ * own id, a paid tool cannot be called as a notification (no id, so no
+ * result to charge for), and paid tools cannot be called over the SSE
+ * transport. Mounted before every billing middleware (free tier, credits, x402).
+ */
+export const jsonRpcBillingGuard = (req: Request, res: Response, next: NextFunction) => {
+  const path = normalizePath(req.path);
+  if (req.method === "POST" && (path === "/mcp" || path === SSE_MESSAGES_PATH)) {
+    const notification = getJsonRpcMessages(req.body).find(
+      (message) => isNotification(message) && getJsonRpcCallPrice(message.method, message.params)
+    );
+    if (notification) {
+      return res.status(400).json({
+        error: "PAID_TOOL_NOTIFICATION",
+        message: `${notification.params.name} is a paid tool and cannot be called as a notification; ` +
+          "give the tools/call request an id",
+      });
+    }
+  }
+
+  if (req.method === "POST" && path === SSE_MESSAGES_PATH) {
+    const paid = getJsonRpcCalls(req.body).find((call) => getJsonRpcCallPrice(call.method, call.params));
+    if (paid) {
+      return res.status(400).json({
+        error: "PAID_TOOL_UNSUPPORTED_TRANSPORT",
+        message: `${paid.params.name} is a paid tool and cannot be called over the SSE transport; ` +
+          "call it through POST /mcp (JSON-RPC or Streamable HTTP) instead",
+      });
+    }
+    return next();
+  }
+
+  if (!resolveJsonRpcPrice(req)) {
+    return next();
+  }
+
+  const seen = new Set<string>();
+  for (const call of getJsonRpcCalls(req.body)) {
+    const id = JSON.stringify(call.id);
+    if (seen.has(id)) {
+      return res.status(400).json({
+        error: "DUPLICATE_REQUEST_ID",
+        message: `Every request in a batch with paid tool calls needs a unique id; ${id} is used more than once`,
+      });
+    }
+    seen.add(id);
+  }
+  next();
+};
+
+/**
+ * x402 payment for the JSON-RPC endpoint, priced from the body.
+ * One payment covers a whole batch; a body with nothing billable needs no payment.
+ */
+export const jsonRpcPaymentMiddleware = (facilitator: FacilitatorConfig) => {
+  return x402PaymentMiddleware(facilitator, resolveJsonRpcPrice);
+};
@@ -0,0 +1,14 @@
+import { Request, Response, NextFunction } from "express";
+import { randomUUID } from "node:crypto";
+
+/**
+ * Tag every request with an id (the client's X-Request-Id if it sent a sane
+ * one) in res.locals.requestId and the X-Request-Id response header
+ */
+export const requestIdMiddleware = (req: Request, res: Response, next: NextFunction) => {
+  const requested = req.header("X-Request-Id");
+  const requestId = requested && /^[\w.:-]{1,128}$/.test(requested) ? requested : randomUUID();
+  res.locals.requestId = requestId;
+  res.setHeader("X-Request-Id", requestId);
+  next();
+};
@@ -0,0 +1,106 @@
+import { Response } from "express";
+
+/**
+ * Keep a copy of everything written to the response, for billing code that
+ * needs to look at the result (e.g. which JSON-RPC calls failed). Returns a
+ * getter for the body written so far.
+ */
+export const captureResponseBody = (res: Response): (() => string) => {
+  const chunks: Buffer[] = [];
+  const collect = (chunk: unknown, encoding: unknown) => {
+    if (typeof chunk === "string") {
+      chunks.push(Buffer.from(chunk, typeof encoding === "string" ? (encoding as BufferEncoding) : "utf8"));
+    } else if (chunk instanceof Uint8Array) {
+      chunks.push(Buffer.from(chunk));
+    }
+  };
+
+  const write = res.write;
+  const end = res.end;
+  res.write = function (this: Response, chunk: unknown, ...rest: unknown[]) {
+    collect(chunk, rest[0]);
+    return (write as (...args: unknown[]) => boolean).call(this, chunk, ...rest);
+  } as Response["write"];
+  res.end = function (this: Response, chunk?: unknown, ...rest: unknown[]) {
+    collect(chunk, rest[0]);
+    return (end as (...args: unknown[]) => Response).call(this, chunk, ...rest);
+  } as Response["end"];
+
+  return () => Buffer.concat(chunks).toString("utf8");
+};
+
+export interface HeldResponse {
+  // Resolves true once the handler ends the response, false if the client
+  // went away first; either way the response methods are restored
+  ended: Promise<boolean>;
+  // Send what the handler wrote (status, headers, chunks and end)
+  replay: () => Response;
+}
+
+/**
+ * Hold everything the handler sends until billing has decided what to do.
+ * Streamed responses (Streamable HTTP answers over SSE) call writeHead and
+ * write before end(), so those are held as well as end. Headers can still be
+ * set, or the response replaced, until replay() runs; if it never does, the
+ * handler's output is dropped.
+ */
+export const holdResponse = (res: Response): HeldResponse => {
+  const originalWriteHead = res.writeHead;
+  const originalFlushHeaders = res.flushHeaders;
+  const originalWrite = res.write;
+  const originalEnd = res.end;
+  let heldWriteHead: unknown[] | undefined;
+  let flushRequested = false;
+  const heldWrites: unknown[][] = [];
+  let endArgs: unknown[] | undefined;
+
+  const restore = () => {
+    res.writeHead = originalWriteHead;
+    res.flushHeaders = originalFlushHeaders;
+    res.write = originalWrite;
+    res.end = originalEnd;
+  };
+
+  const ended = new Promise<boolean>((resolve) => {
+    res.writeHead = ((statusCode: number, ...rest: unknown[]) => {
+      res.statusCode = statusCode;
+      heldWriteHead = [statusCode, ...rest];
+      return res;
+    }) as Response["writeHead"];
+    res.flushHeaders = () => {
+      flushRequested = true;
+    };
+    res.write = ((...args: unknown[]) => {
+      heldWrites.push(args);
+      return true;
+    }) as Response["write"];
+    res.end = ((...args: unknown[]) => {
+      endArgs = args;
+      restore();
+      resolve(true);
+      return res;
+    }) as Response["end"];
+    res.on("close", () => {
+      restore();
+      resolve(false);
+    });
+  });
+
+  const replay = (): Response => {
+    if (!endArgs) {
+      return res;
+    }
+    if (heldWriteHead) {
+      (originalWriteHead as (...args: unknown[]) => Response).apply(res, heldWriteHead);
+    }
+    if (flushRequested) {
+      originalFlushHeaders.call(res);
+    }
+    for (const args of heldWrites) {
+      (originalWrite as (...args: unknown[]) => boolean).apply(res, args);
+    }
+    return (originalEnd as (...args: unknown[]) => Response).apply(res, endArgs);
+  };
+
+  return { ended, replay };
+};
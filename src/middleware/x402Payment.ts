@@ -0,0 +1,432 @@
+import { Request, Response, NextFunction } from "express";
+import { exact } from "x402/schemes";
+import { findMatchingPaymentRequirements, toJsonSafe } from "x402/shared";
+import { getPaywallHtml } from "x402/paywall";
+import {
+  settleResponseHeader,
+  type PaymentPayload,
+  type PaymentRequirements,
+  type SettleResponse,
+} from "x402/types";
+import { useFacilitator } from "x402/verify";
+import {
+  createReceiptId,
+  createRefundDue,
+  recordPayment,
+  type LedgerEntry,
+  type PaymentItem,
+  type RefundDue,
+} from "../ledger/index.js";
+import { describeReplayRejection, getPaymentKeys, getReplayStore } from "../replay/index.js";
+import { captureResponseBody, holdResponse } from "./responseCapture.js";
+import {
+  type PaymentOption,
+  type PriceConfig,
+  getNetworkAsset,
+  getPaidRoutes,
+  getPaymentOptions,
+  isSolanaNetwork,
+  toAtomicAmount,
+} from "../config/payment.config.js";
+
+export type FacilitatorConfig = NonNullable<Parameters<typeof useFacilitator>[0]>;
+
+// What a request costs, as decided by a price resolver
+export interface PaymentQuote {
+  pricing: PriceConfig;
+  description: string;
+  // Tools paid for, recorded in the ledger (empty when no tool is bought)
+  items: PaymentItem[];
+  // Items whose calls failed, judged from the response body; without it any
+  // response below 400 counts as every item delivered
+  failedItems?: (responseBody: string) => PaymentItem[];
+}
+
+// What a paid request delivered: nothing (do not charge), or everything but
+// the failed items (charge, and owe those back)
+export interface PaymentOutcome {
+  delivered: boolean;
+  failedItems: PaymentItem[];
+}
+
+// Helper to judge a finished paid request from its status and body
+export const assessPaymentOutcome = (quote: PaymentQuote, statusCode: number, responseBody?: string): PaymentOutcome => {
+  if (statusCode >= 400) {
+    return { delivered: false, failedItems: quote.items };
+  }
+  const failedItems = quote.failedItems && responseBody !== undefined ? quote.failedItems(responseBody) : [];
+  return {
+    delivered: quote.items.length === 0 || failedItems.length < quote.items.length,
+    failedItems,
+  };
+};
+
+// Returns undefined when the request is free
+export type PriceResolver = (req: Request) => PaymentQuote | undefined;
+
+export interface X402PaymentOptions {
+  // Settle before running the handler instead of after it succeeds, for
+  // handlers that hand out something (e.g. credits) only against settled funds
+  settleBeforeHandler?: boolean;
+}
+
+// A verified x402 payment, available to handlers as res.locals.payment
+export interface VerifiedPayment {
+  network: string;
+  // Atomic units of the network's asset
+  amount: string;
+  payer?: string;
+  // Set once settled (only before the handler with settleBeforeHandler)
+  transaction?: string;
+}
+
+const X402_VERSION = 1;
+
+// Helper to build the payment requirement a 402 response lists for one
+// payment option. Solana options still need the facilitator's fee payer in
+// `extra`, which the middleware adds.
+export const createPaymentRequirement = (
+  option: PaymentOption,
+  quote: Pick<PaymentQuote, "pricing" | "description">,
+  resource: string,
+  method: string
+): PaymentRequirements => {
+  const asset = getNetworkAsset(option.network);
+  return {
+    scheme: "exact",
+    network: option.network,
+    maxAmountRequired: toAtomicAmount(quote.pricing.price, asset.decimals),
+    resource: resource as PaymentRequirements["resource"],
+    description: quote.description,
+    mimeType: "application/json",
+    payTo: option.payTo,
+    maxTimeoutSeconds: 60,
+    asset: asset.address,
+    outputSchema: {
+      input: {
+        type: "http",
+        method: method.toUpperCase(),
+        discoverable: true,
+      },
+    },
+    extra: asset.eip712,
+  };
+};
+
+/**
+ * x402 payment middleware accepting several networks per price.
+ * Works like x402-express's paymentMiddleware (402 with `accepts`, verify,
+ * run the handler, settle on success) but lists one payment requirement per
+ * configured network, each with its own payTo address and USDC asset.
+ */
+export const x402PaymentMiddleware = (
+  facilitator: FacilitatorConfig,
+  resolvePrice: PriceResolver,
+  options: X402PaymentOptions = {}
+) => {
+  const { verify, settle, supported } = useFacilitator(facilitator);
+
+  // Solana payments need the facilitator's fee payer; look it up once
+  let feePayers: Promise<Map<string, string>> | undefined;
+  const getFeePayer = async (network: string): Promise<string | undefined> => {
+    feePayers ??= supported()
+      .then((response) => new Map(
+        response.kinds
+          .filter((kind) => kind.scheme === "exact" && typeof kind.extra?.feePayer === "string")
+          .map((kind) => [kind.network, kind.extra?.feePayer as string])
+      ))
+      .catch((error) => {
+        console.error("❌ Could not fetch supported payment kinds from facilitator:", error);
+        feePayers = undefined;
+        return new Map<string, string>();
+      });
+    return (await feePayers).get(network);
+  };
+
+  const buildPaymentRequirements = async (req: Request, quote: PaymentQuote): Promise<PaymentRequirements[]> => {
+    const resource = `${req.protocol}://${req.headers.host}${req.path}`;
+    const requirements: PaymentRequirements[] = [];
+
+    for (const option of getPaymentOptions(quote.pricing)) {
+      const requirement = createPaymentRequirement(option, quote, resource, req.method);
+
+      if (isSolanaNetwork(option.network)) {
+        const feePayer = await getFeePayer(option.network);
+        if (!feePayer) {
+          console.warn(`⚠️  Facilitator has no fee payer for ${option.network}; option skipped`);
+          continue;
+        }
+        requirement.extra = { feePayer };
+      }
+
+      requirements.push(requirement);
+    }
+
+    return requirements;
+  };
+
+  const paymentRequired = (res: Response, accepts: PaymentRequirements[], error: unknown, payer?: string) => {
+    res.status(402).json({
+      x402Version: X402_VERSION,
+      error,
+      accepts: toJsonSafe(accepts),
+      ...(payer ? { payer } : {}),
+    });
+  };
+
+  // Write a settled payment to the ledger and hand the client its receipt id
+  const recordSettlement = (
+    res: Response,
+    resource: string,
+    quote: PaymentQuote,
+    requirements: PaymentRequirements,
+    payment: VerifiedPayment,
+    settleResponse: SettleResponse,
+    details: { id?: string; refundDue?: RefundDue } = {}
+  ): LedgerEntry => {
+    const receipt = recordPayment({
+      ...details,
+      requestId: res.locals.requestId ?? "",
+      method: "x402",
+      resource,
+      description: quote.description,
+      items: quote.items,
+      price: quote.pricing.price,
+      amountAtomic: requirements.maxAmountRequired,
+      network: requirements.network,
+      asset: requirements.asset,
+      payer: settleResponse.payer ?? payment.payer,
+      transaction: settleResponse.transaction,
+    });
+    res.locals.receiptId = receipt.id;
+    if (!res.headersSent) {
+      res.setHeader("X-Payment-Receipt", receipt.id);
+    }
+    if (receipt.refundDue) {
+      console.log(`🧾 Refund due on ${receipt.id}: ${receipt.refundDue.price} (${receipt.refundDue.reason})`);
+    }
+    return receipt;
+  };
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    // Already paid another way (free tier, prepaid credits)
+    if (res.locals.billing) {
+      return next();
+    }
+
+    const quote = resolvePrice(req);
+    if (!quote) {
+      return next();
+    }
+    // Captured now: routers rewrite req.url while the handler runs
+    const resource = `${req.method.toUpperCase()} ${req.path}`;
+
+    let requirements: PaymentRequirements[];
+    try {
+      requirements = await buildPaymentRequirements(req, quote);
+    } catch (error) {
+      return next(error);
+    }
+
+    if (requirements.length === 0) {
+      return res.status(503).json({
+        x402Version: X402_VERSION,
+        error: "No payment option is configured for this resource",
+      });
+    }
+
+    const paymentHeader = req.header("X-PAYMENT");
+    if (!paymentHeader) {
+      const isWebBrowser =
+        (req.header("Accept") || "").includes("text/html") && (req.header("User-Agent") || "").includes("Mozilla");
+      if (isWebBrowser) {
+        return res.status(402).send(getPaywallHtml({
+          amount: Number(quote.pricing.price.replace(/^\$/, "")),
+          paymentRequirements: toJsonSafe(requirements) as PaymentRequirements[],
+          currentUrl: req.originalUrl,
+          testnet: requirements[0].network === "base-sepolia",
+        }));
+      }
+      return paymentRequired(res, requirements, "X-PAYMENT header is required");
+    }
+
+    let decodedPayment: PaymentPayload;
+    try {
+      decodedPayment = exact.evm.decodePayment(paymentHeader);
+      decodedPayment.x402Version = X402_VERSION;
+    } catch (error) {
+      console.error("❌ Invalid X-PAYMENT header:", error);
+      return paymentRequired(res, requirements, "Invalid or malformed payment header");
+    }
+
+    // The client picks one of the accepted networks; find the one it paid on
+    const selectedRequirements = findMatchingPaymentRequirements(requirements, decodedPayment);
+    if (!selectedRequirements) {
+      return paymentRequired(res, requirements, "Unable to find matching payment requirements");
+    }
+
+    // A proof pays once, and only for the resource it was first sent to
+    const replayStore = getReplayStore();
+    const boundResource = `${req.method.toUpperCase() === "HEAD" ? "GET" : req.method.toUpperCase()} ${normalizePath(req.path)}`;
+    const { keys, expiresAt } = getPaymentKeys(decodedPayment, selectedRequirements);
+    const claimed = replayStore.claim(keys, boundResource, expiresAt);
+    if ("rejection" in claimed) {
+      console.warn(`⚠️  Rejected reused payment for ${boundResource}: ${claimed.rejection}`);
+      return paymentRequired(res, requirements, describeReplayRejection(claimed.rejection, claimed.boundTo, boundResource));
+    }
+    const { claim } = claimed;
+
+    let payment: VerifiedPayment;
+    try {
+      const response = await verify(decodedPayment, selectedRequirements);
+      if (!response.isValid) {
+        replayStore.forget(claim);
+        return paymentRequired(res, requirements, response.invalidReason, response.payer);
+      }
+      payment = {
+        network: selectedRequirements.network,
+        amount: selectedRequirements.maxAmountRequired,
+        payer: response.payer,
+      };
+    } catch (error) {
+      console.error("❌ Payment verification failed:", error);
+      replayStore.forget(claim);
+      return paymentRequired(res, requirements, error instanceof Error ? error.message : String(error));
+    }
+
+    if (options.settleBeforeHandler) {
+      let settleResponse: SettleResponse;
+      try {
+        settleResponse = await settle(decodedPayment, selectedRequirements);
+        res.setHeader("X-PAYMENT-RESPONSE", settleResponseHeader(settleResponse));
+        if (!settleResponse.success) {
+          replayStore.release(claim);
+          return paymentRequired(res, requirements, settleResponse.errorReason, settleResponse.payer);
+        }
+      } catch (error) {
+        console.error("❌ Payment settlement failed:", error);
+        replayStore.release(claim);
+        return paymentRequired(res, requirements, error instanceof Error ? error.message : String(error));
+      }
+
+      replayStore.consume(claim);
+      res.locals.payment = { ...payment, transaction: settleResponse.transaction } satisfies VerifiedPayment;
+      const receiptId = createReceiptId();
+      res.locals.receiptId = receiptId;
+      res.setHeader("X-Payment-Receipt", receiptId);
+
+      // Already charged: record once the handler is done, with whatever it
+      // failed to deliver as a refund due. "close" also fires after "finish".
+      const getResponseBody = quote.failedItems ? captureResponseBody(res) : undefined;
+      let recorded = false;
+      const record = (outcome: PaymentOutcome) => {
+        if (recorded) {
+          return;
+        }
+        recorded = true;
+        const refundDue = !outcome.delivered
+          ? createRefundDue(quote.items, "Request failed after the payment settled", {
+              price: quote.pricing.price,
+              amountAtomic: selectedRequirements.maxAmountRequired,
+            })
+          : outcome.failedItems.length > 0
+            ? createRefundDue(outcome.failedItems, "Tool calls failed after the payment settled")
+            : undefined;
+        recordSettlement(res, resource, quote, selectedRequirements, payment, settleResponse, { id: receiptId, refundDue });
+      };
+      res.on("finish", () => record(assessPaymentOutcome(quote, res.statusCode, getResponseBody?.())));
+      res.on("close", () => record({ delivered: false, failedItems: quote.items }));
+      return next();
+    }
+
+    res.locals.payment = payment;
+
+    // Hold the response (streamed output included) until the handler has
+    // finished, then settle
+    const held = holdResponse(res);
+    const getResponseBody = quote.failedItems ? captureResponseBody(res) : undefined;
+
+    next();
+
+    const handlerEnded = await held.ended;
+    const finish = () => held.replay();
+
+    // Client went away, or the call failed (HTTP error, isError result,
+    // JSON-RPC error): nothing to charge for, and the payment can be retried
+    if (!handlerEnded) {
+      replayStore.release(claim);
+      return finish();
+    }
+    const outcome = assessPaymentOutcome(quote, res.statusCode, getResponseBody?.());
+    if (!outcome.delivered) {
+      replayStore.release(claim);
+      return finish();
+    }
+
+    try {
+      const settleResponse = await settle(decodedPayment, selectedRequirements);
+      if (!res.headersSent) {
+        res.setHeader("X-PAYMENT-RESPONSE", settleResponseHeader(settleResponse));
+      }
+      if (!settleResponse.success) {
+        replayStore.release(claim);
+        if (!res.headersSent) {
+          return paymentRequired(res, requirements, settleResponse.errorReason);
+        }
+      } else {
+        replayStore.consume(claim);
+        // One payment covers a whole batch: calls in it that failed are owed back
+        const refundDue = outcome.failedItems.length > 0
+          ? createRefundDue(outcome.failedItems, "Tool calls in the batch failed")
+          : undefined;
+        recordSettlement(res, resource, quote, selectedRequirements, payment, settleResponse, { refundDue });
+      }
+    } catch (error) {
+      console.error("❌ Payment settlement failed:", error);
+      replayStore.release(claim);
+      if (!res.headersSent) {
+        return paymentRequired(res, requirements, error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    return finish();
+  };
+};
+
+// Normalize "/MCP/Calculate/" style paths the way Express matches routes
+// (case-insensitive, trailing slash optional) so no variant skips payment
+export const normalizePath = (path: string): string => {
+  try {
+    return decodeURIComponent(path).replace(/\/+/g, "/").replace(/(.+?)\/+$/, "$1").toLowerCase();
+  } catch {
+    return path.toLowerCase();
+  }
+};
+
+// Prices the fixed-price REST tool endpoints
+export const createRoutePriceResolver = (): PriceResolver => {
+  const paidRoutes = new Map(
+    Object.entries(getPaidRoutes()).map(([route, pricing]) => {
+      const [method, path] = route.split(" ");
+      return [`${method} ${normalizePath(path)}`, { route, pricing }];
+    })
+  );
+
+  return (req) => {
+    // Express answers HEAD with the GET handler, so it costs the same
+    const method = req.method.toUpperCase() === "HEAD" ? "GET" : req.method.toUpperCase();
+    const match = paidRoutes.get(`${method} ${normalizePath(req.path)}`);
+    return match && {
+      pricing: match.pricing,
+      description: match.route,
+      items: [{ tool: match.pricing.toolName, price: match.pricing.price }],
+    };
+  };
+};
+
+/**
+ * x402 payment for the fixed-price REST tool endpoints
+ */
+export const routePaymentMiddleware = (facilitator: FacilitatorConfig) => {
+  return x402PaymentMiddleware(facilitator, createRoutePriceResolver());
+};
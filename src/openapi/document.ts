@@ -0,0 +1,523 @@
+import type { ToolDefinition } from "../tools/index.js";
+import { createToolRegistry } from "../tools/index.js";
+import { ROUTE_TABLE, type RouteDoc } from "./routeTable.js";
+import { SERVER_CONFIG } from "../config/constants.js";
+import {
+  type PriceConfig,
+  PAYMENT_CONFIG,
+  getNetworkAsset,
+  getPaidRoutes,
+  getPaymentNetworks,
+  getPaymentOptions,
+  toAtomicAmount,
+} from "../config/payment.config.js";
+
+type Schema = Record<string, unknown>;
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+
+const jsonContent = (schema: Schema, example?: unknown) => ({
+  "application/json": example === undefined ? { schema } : { schema, example },
+});
+
+const COMPONENT_SCHEMAS: Record<string, Schema> = {
+  ServerInfo: {
+    type: "object",
+    description: "Server name, version, endpoints, pricing and capabilities",
+    additionalProperties: true,
+  },
+  Health: {
+    type: "object",
+    properties: {
+      status: { type: "string", example: "healthy" },
+      uptime: { type: "number" },
+      timestamp: { type: "string", format: "date-time" },
+    },
+  },
+  InitializeRequest: {
+    type: "object",
+    properties: {
+      protocolVersion: { type: "string", example: "2024-11-05" },
+      capabilities: { type: "object" },
+      clientInfo: {
+        type: "object",
+        properties: { name: { type: "string" }, version: { type: "string" } },
+      },
+    },
+  },
+  InitializeResult: {
+    type: "object",
+    properties: {
+      protocolVersion: { type: "string", enum: SERVER_CONFIG.supportedProtocolVersions },
+      capabilities: { type: "object" },
+      serverInfo: {
+        type: "object",
+        properties: { name: { type: "string" }, version: { type: "string" } },
+      },
+    },
+  },
+  ToolListing: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        description: { type: "string" },
+        endpoint: { type: "string" },
+        parameters: { type: "array", items: { type: "object" } },
+        pricing: { type: "object" },
+      },
+    },
+  },
+  PromptListing: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        description: { type: "string" },
+        parameters: { type: "array", items: { type: "object" } },
+      },
+    },
+  },
+  ResourceListing: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        uri: { type: "string" },
+        description: { type: "string" },
+        mimeType: { type: "string" },
+      },
+    },
+  },
+  JsonRpcRequest: {
+    type: "object",
+    required: ["jsonrpc", "method"],
+    properties: {
+      jsonrpc: { const: "2.0" },
+      method: { type: "string", example: "tools/call" },
+      params: { type: "object" },
+      id: { type: ["string", "number", "null"], description: "Omit for notifications" },
+    },
+  },
+  JsonRpcResponse: {
+    type: "object",
+    required: ["jsonrpc", "id"],
+    properties: {
+      jsonrpc: { const: "2.0" },
+      result: {},
+      error: {
+        type: "object",
+        properties: {
+          code: { type: "integer" },
+          message: { type: "string" },
+          data: {},
+        },
+      },
+      id: { type: ["string", "number", "null"] },
+    },
+  },
+  JsonRpcBody: {
+    oneOf: [ref("JsonRpcRequest"), { type: "array", items: ref("JsonRpcRequest"), minItems: 1 }],
+  },
+  JsonRpcResponseBody: {
+    oneOf: [ref("JsonRpcResponse"), { type: "array", items: ref("JsonRpcResponse") }],
+  },
+  TopUpRequest: {
+    type: "object",
+    required: ["amount"],
+    properties: {
+      amount: {
+        type: ["number", "string"],
+        description: `USD amount, ${PAYMENT_CONFIG.credits.minTopUp} to ${PAYMENT_CONFIG.credits.maxTopUp}`,
+        example: 5,
+      },
+    },
+  },
+  AccountBalance: {
+    type: "object",
+    required: ["accountId", "balance", "balanceAtomic"],
+    properties: {
+      accountId: { type: "string" },
+      balance: { type: "string", example: "$4.9" },
+      balanceAtomic: { type: "integer", description: "Balance in atomic USDC units (6 decimals)" },
+      credited: { type: "string", description: "Top-up only" },
+      transaction: { type: "string", description: "Top-up only: settlement transaction" },
+      apiKey: { type: "string", description: "Top-up only, when a new account was opened" },
+    },
+  },
+  AccountUsage: {
+    type: "object",
+    properties: {
+      accountId: { type: "string" },
+      balance: { type: "string" },
+      balanceAtomic: { type: "integer" },
+      usage: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            at: { type: "string", format: "date-time" },
+            description: { type: "string", example: "GET /mcp/calculate" },
+            amount: { type: "string" },
+            status: { type: "string", enum: ["charged", "refunded", "partially_refunded"] },
+            refunded: { type: "string", description: "Amount given back for failed calls" },
+          },
+        },
+      },
+      topUps: { type: "array", items: { type: "object", additionalProperties: true } },
+    },
+  },
+  LedgerEntry: {
+    type: "object",
+    required: ["id", "at", "requestId", "method", "resource", "items", "price", "amountAtomic"],
+    properties: {
+      id: { type: "string", description: "Receipt id", example: "rcpt_6f1c…" },
+      at: { type: "string", format: "date-time" },
+      requestId: { type: "string" },
+      method: { type: "string", enum: ["x402", "credits"] },
+      resource: { type: "string", example: "GET /mcp/calculate" },
+      description: { type: "string" },
+      items: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { tool: { type: "string" }, price: { type: "string" } },
+        },
+      },
+      price: { type: "string", example: "$0.1" },
+      amountAtomic: { type: "string", example: "100000" },
+      network: { type: "string" },
+      asset: { type: "string" },
+      payer: { type: "string" },
+      transaction: { type: "string" },
+      accountId: { type: "string" },
+      refundDue: {
+        type: "object",
+        description: "Part of a settled payment owed back because tool calls failed after it settled",
+        properties: {
+          price: { type: "string" },
+          amountAtomic: { type: "string" },
+          reason: { type: "string" },
+          items: { type: "array", items: { type: "object" } },
+        },
+      },
+    },
+  },
+  LedgerPage: {
+    type: "object",
+    properties: {
+      count: { type: "integer" },
+      entries: { type: "array", items: ref("LedgerEntry") },
+    },
+  },
+  ToolError: {
+    type: "object",
+    required: ["success", "error", "message"],
+    properties: {
+      success: { const: false },
+      error: {
+        type: "string",
+        enum: [
+          "UNKNOWN_TOOL",
+          "UNKNOWN_OPERATION",
+          "DIVISION_BY_ZERO",
+          "INVALID_EXPRESSION",
+          "MATH_DOMAIN_ERROR",
+          "INVALID_DATE",
+          "INVALID_TIMEZONE",
+          "INVALID_LOCALE",
+          "INVALID_OFFSET",
+          "INVALID_LOCATION",
+          "LOCATION_NOT_FOUND",
+          "WEATHER_UNAVAILABLE",
+          "TOOL_EXECUTION_FAILED",
+        ],
+      },
+      message: { type: "string" },
+    },
+  },
+  ValidationError: {
+    type: "object",
+    required: ["success", "error", "message", "errors"],
+    properties: {
+      success: { const: false },
+      error: { const: "INVALID_ARGUMENTS" },
+      message: { type: "string" },
+      errors: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["field", "message"],
+          properties: {
+            field: { type: "string" },
+            message: { type: "string" },
+            expected: {},
+            received: {},
+          },
+        },
+      },
+    },
+  },
+  PaymentRequirements: {
+    type: "object",
+    required: ["scheme", "network", "maxAmountRequired", "resource", "payTo", "asset"],
+    properties: {
+      scheme: { const: "exact" },
+      network: { type: "string" },
+      maxAmountRequired: { type: "string", description: "Amount in the asset's atomic units" },
+      resource: { type: "string", format: "uri" },
+      description: { type: "string" },
+      mimeType: { type: "string" },
+      payTo: { type: "string" },
+      maxTimeoutSeconds: { type: "integer" },
+      asset: { type: "string" },
+      outputSchema: { type: "object" },
+      extra: { type: "object" },
+    },
+  },
+  PaymentRequired: {
+    type: "object",
+    required: ["x402Version", "error", "accepts"],
+    properties: {
+      x402Version: { const: 1 },
+      error: {},
+      accepts: { type: "array", items: ref("PaymentRequirements") },
+      payer: { type: "string" },
+    },
+  },
+};
+
+// Price of a fixed-price route, e.g. "GET /mcp/calculate"
+const getRoutePrice = (routeKey: string): PriceConfig | undefined => {
+  return getPaidRoutes()[routeKey];
+};
+
+// The payment options a price is offered on; falls back to placeholders for
+// every accepted network so the document still shows the shape when no
+// payTo address is configured
+const getDocumentedOptions = (price: PriceConfig) => {
+  const options = getPaymentOptions(price);
+  if (options.length > 0) {
+    return options.map(({ network, payTo }) => ({ network, payTo }));
+  }
+  return getPaymentNetworks()
+    .filter((network) => !price.networks || price.networks.includes(network))
+    .map((network) => ({ network, payTo: "0xYourWalletAddress" }));
+};
+
+// 402 response with the accepts payload the x402 middleware would send
+const paymentRequiredResponse = (
+  baseUrl: string,
+  method: string,
+  path: string,
+  price: PriceConfig,
+  note?: string
+) => ({
+  description:
+    `Payment required (x402, ${price.price}${note ? ` ${note}` : ""}). ` +
+    "Returned when payment is enabled and no valid X-PAYMENT header was sent. " +
+    "`accepts` lists one entry per network the price can be paid on; pay any one of them.",
+  content: jsonContent(ref("PaymentRequired"), {
+    x402Version: 1,
+    error: "X-PAYMENT header is required",
+    accepts: getDocumentedOptions(price).map(({ network, payTo }) => {
+      const asset = getNetworkAsset(network);
+      return {
+        scheme: "exact",
+        network,
+        maxAmountRequired: toAtomicAmount(price.price, asset.decimals),
+        resource: `${baseUrl}${path}`,
+        description: "",
+        mimeType: "application/json",
+        payTo,
+        maxTimeoutSeconds: 60,
+        asset: asset.address,
+        outputSchema: { input: { type: "http", method: method.toUpperCase(), discoverable: true } },
+        extra: asset.eip712,
+      };
+    }),
+  }),
+});
+
+const toolErrorResponses = () => ({
+  "400": { description: "Invalid arguments", content: jsonContent(ref("ValidationError")) },
+  "404": { description: "Not found (e.g. LOCATION_NOT_FOUND)", content: jsonContent(ref("ToolError")) },
+  "422": { description: "Tool error (e.g. DIVISION_BY_ZERO)", content: jsonContent(ref("ToolError")) },
+  "500": { description: "Tool execution failed", content: jsonContent(ref("ToolError")) },
+  "503": { description: "Upstream data unavailable (e.g. WEATHER_UNAVAILABLE)", content: jsonContent(ref("ToolError")) },
+});
+
+const toolSuccessSchema = (tool: ToolDefinition): Schema => ({
+  type: "object",
+  required: ["success"],
+  properties: { success: { const: true } },
+  additionalProperties: true,
+  description: `Result of ${tool.name}, unwrapped from the MCP tool result`,
+});
+
+const buildToolOperations = (tool: ToolDefinition, baseUrl: string) => {
+  const path = `/mcp/${tool.metadata.restPath}`;
+  const required = tool.inputSchema.required ?? [];
+  const operations: Record<string, unknown> = {};
+
+  for (const method of ["get", "post"] as const) {
+    const price = getRoutePrice(`${method.toUpperCase()} ${path}`);
+    const responses: Record<string, unknown> = {
+      "200": { description: "Tool result", content: jsonContent(toolSuccessSchema(tool)) },
+      ...toolErrorResponses(),
+    };
+    if (price) {
+      responses["402"] = paymentRequiredResponse(baseUrl, method, path, price);
+    }
+
+    operations[method] = {
+      tags: ["tools"],
+      operationId: `${method}_${tool.name}`,
+      summary: tool.description,
+      ...(method === "get"
+        ? {
+            parameters: Object.entries(tool.inputSchema.properties).map(([name, schema]) => ({
+              name,
+              in: "query",
+              required: required.includes(name),
+              description: schema.description,
+              schema: {
+                type: schema.type,
+                ...(schema.enum ? { enum: schema.enum } : {}),
+                ...(schema.minimum !== undefined ? { minimum: schema.minimum } : {}),
+                ...(schema.maximum !== undefined ? { maximum: schema.maximum } : {}),
+              },
+            })),
+          }
+        : {
+            requestBody: {
+              required: true,
+              content: jsonContent({ ...tool.inputSchema }),
+            },
+          }),
+      responses,
+      ...(price ? { security: [{ x402: [] }, { apiKey: [] }], "x-price": price.price } : {}),
+    };
+  }
+
+  return { path, operations };
+};
+
+const buildRouteOperation = (route: RouteDoc, baseUrl: string) => {
+  const responses: Record<string, unknown> = {
+    "200": {
+      description: route.summary,
+      ...(route.responseSchema
+        ? { content: jsonContent(ref(route.responseSchema)) }
+        : route.responseContentType
+          ? { content: { [route.responseContentType]: { schema: { type: "string" } } } }
+          : {}),
+    },
+  };
+
+  // JSON-RPC is priced per tools/call: show a single call to the first priced tool
+  const isJsonRpc = route.method === "post" && route.path === "/mcp";
+  const [exampleTool, examplePrice] = Object.entries(PAYMENT_CONFIG.tools)[0] ?? [];
+  if (isJsonRpc) {
+    responses["202"] = { description: "Only notifications were sent: no response body" };
+    if (examplePrice) {
+      responses["402"] = paymentRequiredResponse(
+        baseUrl,
+        route.method,
+        route.path,
+        examplePrice,
+        `for one ${exampleTool} call; a body costs the sum of its tools/call catalog prices`
+      );
+    }
+  }
+
+  const pathParameters = [...route.path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: { type: "string" },
+  }));
+
+  return {
+    tags: [route.tag],
+    operationId: `${route.method}_${route.path.replace(/[^a-zA-Z0-9]+/g, "_").replace(/^_|_$/g, "") || "root"}`,
+    summary: route.summary,
+    ...(route.description ? { description: route.description } : {}),
+    ...(pathParameters.length > 0 ? { parameters: pathParameters } : {}),
+    ...(route.requestSchema
+      ? { requestBody: { required: true, content: jsonContent(ref(route.requestSchema)) } }
+      : {}),
+    responses,
+    ...(isJsonRpc ? { security: [{ x402: [] }, { apiKey: [] }], "x-price": "per tools/call" } : {}),
+    ...(route.security ? { security: [{ [route.security]: [] }] } : {}),
+  };
+};
+
+/**
+ * Build the OpenAPI 3.1 document from the tool registry and route table
+ */
+export const buildOpenApiDocument = (baseUrl: string) => {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const route of ROUTE_TABLE.filter(({ enabled }) => !enabled || enabled())) {
+    paths[route.path] = { ...paths[route.path], [route.method]: buildRouteOperation(route, baseUrl) };
+  }
+
+  for (const tool of createToolRegistry().getAll()) {
+    const { path, operations } = buildToolOperations(tool, baseUrl);
+    paths[path] = { ...paths[path], ...operations };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: SERVER_CONFIG.name,
+      version: SERVER_CONFIG.version,
+      description:
+        "REST and JSON-RPC surface of the FluidSDK MCP server. " +
+        "Paid endpoints use Coinbase x402: without a valid X-PAYMENT header they answer 402 " +
+        "with the accepted payment options. Alternatively, prepaid credits bought through " +
+        "/accounts/topup are drawn down by sending the account's X-API-Key.",
+    },
+    servers: [{ url: baseUrl }],
+    tags: [
+      { name: "server", description: "Server info and health" },
+      { name: "tools", description: "Tool execution (generated from the tool registry)" },
+      { name: "mcp", description: "MCP discovery endpoints" },
+      { name: "jsonrpc", description: "JSON-RPC 2.0" },
+      { name: "transport", description: "MCP SSE and Streamable HTTP transports" },
+      { name: "accounts", description: "Prepaid credits billed by API key" },
+      { name: "ledger", description: "Payment receipts and the admin payment ledger" },
+      { name: "docs", description: "API documentation" },
+      { name: "sandbox", description: "Payment sandbox for trying x402 flows" },
+      { name: "facilitator", description: "Offline mock x402 facilitator (MOCK_FACILITATOR=true)" },
+    ],
+    paths,
+    components: {
+      schemas: COMPONENT_SCHEMAS,
+      securitySchemes: {
+        x402: {
+          type: "apiKey",
+          in: "header",
+          name: "X-PAYMENT",
+          description: "Base64-encoded x402 payment payload",
+        },
+        apiKey: {
+          type: "apiKey",
+          in: "header",
+          name: "X-API-Key",
+          description: "Prepaid credits account key (also accepted as a Bearer token)",
+        },
+        adminKey: {
+          type: "apiKey",
+          in: "header",
+          name: "X-Admin-Key",
+          description: "ADMIN_API_KEY (also accepted as a Bearer token)",
+        },
+      },
+    },
+  };
+};
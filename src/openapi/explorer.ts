@@ -0,0 +1,193 @@
+/**
+ * API Explorer
+ * Self-contained HTML page (no CDN assets) that renders /openapi.json
+ * and lets you try each operation from the browser
+ */
+export const renderExplorerHtml = (specUrl: string): string => `
+<!DOCTYPE html>
+<html>
+<head>
+    <title>API Explorer - FluidSDK MCP Server</title>
+    <style>
+        body {
+            font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+            max-width: 1200px;
+            margin: 0 auto;
+            padding: 20px;
+            background: #f5f5f5;
+        }
+        .container {
+            background: white;
+            padding: 30px;
+            border-radius: 10px;
+            box-shadow: 0 2px 10px rgba(0,0,0,0.1);
+        }
+        h1 { color: #333; }
+        h2 { color: #666; margin-top: 30px; text-transform: capitalize; }
+        details {
+            background: #f9f9f9;
+            margin: 10px 0;
+            border-radius: 5px;
+            border-left: 4px solid #4CAF50;
+        }
+        details.paid { border-left-color: #ff9800; }
+        summary { padding: 12px; cursor: pointer; font-family: monospace; }
+        .method {
+            display: inline-block;
+            min-width: 60px;
+            font-weight: bold;
+            text-transform: uppercase;
+        }
+        .method.get { color: #2196F3; }
+        .method.post { color: #4CAF50; }
+        .method.delete { color: #f44336; }
+        .body { padding: 0 20px 20px; }
+        label { display: block; margin: 8px 0 4px; font-weight: bold; }
+        input, select, textarea {
+            width: 100%;
+            box-sizing: border-box;
+            padding: 6px;
+            font-family: monospace;
+        }
+        textarea { min-height: 120px; }
+        button {
+            background: #4CAF50;
+            color: white;
+            padding: 10px 20px;
+            border: none;
+            border-radius: 5px;
+            cursor: pointer;
+            font-size: 16px;
+            margin-top: 10px;
+        }
+        button:hover { background: #45a049; }
+        pre {
+            background: #263238;
+            color: #aed581;
+            padding: 15px;
+            border-radius: 5px;
+            overflow-x: auto;
+        }
+        .price { color: #ff9800; font-weight: bold; }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <h1>📘 API Explorer</h1>
+        <p>Generated from <a href="${specUrl}"><code>${specUrl}</code></a>. Paid operations answer <code>402</code> until an <code>X-PAYMENT</code> header is supplied.</p>
+        <div id="operations"><p>Loading...</p></div>
+    </div>
+
+    <script>
+        const escapeHtml = (value) => String(value).replace(/[&<>"']/g, (c) => ({
+            '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;'
+        })[c]);
+
+        const resolveRef = (spec, schema) => {
+            if (!schema || !schema.$ref) return schema;
+            return spec.components.schemas[schema.$ref.split('/').pop()];
+        };
+
+        const exampleFor = (spec, schema) => {
+            schema = resolveRef(spec, schema);
+            if (!schema) return {};
+            if (schema.oneOf) return exampleFor(spec, schema.oneOf[0]);
+            if (schema.type !== 'object' || !schema.properties) return {};
+            const example = {};
+            for (const [name, prop] of Object.entries(schema.properties)) {
+                const p = resolveRef(spec, prop);
+                if (p.const !== undefined) example[name] = p.const;
+                else if (p.example !== undefined) example[name] = p.example;
+                else if (p.enum) example[name] = p.enum[0];
+                else if (p.type === 'number' || p.type === 'integer') example[name] = 0;
+                else if (p.type === 'string') example[name] = '';
+            }
+            return example;
+        };
+
+        const renderOperation = (spec, path, method, op, index) => {
+            const paid = op.responses && op.responses['402'];
+            const params = (op.parameters || []).map((p) => \`
+                <label>\${escapeHtml(p.name)}\${p.required ? ' *' : ''} <small>\${escapeHtml(p.description || '')}</small></label>
+                \${p.schema.enum
+                    ? \`<select data-param="\${escapeHtml(p.name)}" data-in="\${p.in}"><option value=""></option>\${p.schema.enum.map((v) => \`<option>\${escapeHtml(v)}</option>\`).join('')}</select>\`
+                    : \`<input data-param="\${escapeHtml(p.name)}" data-in="\${p.in}" placeholder="\${escapeHtml(p.schema.type)}">\`}
+            \`).join('');
+            const bodySchema = op.requestBody && op.requestBody.content['application/json'].schema;
+            const body = bodySchema
+                ? \`<label>Request body</label><textarea data-body>\${escapeHtml(JSON.stringify(exampleFor(spec, bodySchema), null, 2))}</textarea>\`
+                : '';
+
+            return \`
+                <details class="\${paid ? 'paid' : ''}">
+                    <summary>
+                        <span class="method \${method}">\${method}</span> \${escapeHtml(path)}
+                        — \${escapeHtml(op.summary || '')}
+                        \${paid ? \`<span class="price">💰 \${escapeHtml(op['x-price'] || 'paid')}</span>\` : ''}
+                    </summary>
+                    <div class="body" data-path="\${escapeHtml(path)}" data-method="\${method}" id="op-\${index}">
+                        \${params}
+                        \${body}
+                        \${paid ? '<label>X-PAYMENT header</label><input data-payment placeholder="base64 payment payload (optional)">' : ''}
+                        <button onclick="send('op-\${index}')">Send</button>
+                        <div data-result></div>
+                    </div>
+                </details>
+            \`;
+        };
+
+        async function send(id) {
+            const el = document.getElementById(id);
+            const method = el.dataset.method.toUpperCase();
+            const query = new URLSearchParams();
+            let path = el.dataset.path;
+            el.querySelectorAll('[data-param]').forEach((input) => {
+                if (input.dataset.in === 'path') {
+                    path = path.replace('{' + input.dataset.param + '}', encodeURIComponent(input.value));
+                } else if (input.value !== '') {
+                    query.set(input.dataset.param, input.value);
+                }
+            });
+            const url = path + (query.toString() ? '?' + query : '');
+            const headers = {};
+            const payment = el.querySelector('[data-payment]');
+            if (payment && payment.value) headers['X-PAYMENT'] = payment.value;
+            const bodyInput = el.querySelector('[data-body]');
+            const options = { method, headers };
+            if (bodyInput) {
+                headers['Content-Type'] = 'application/json';
+                options.body = bodyInput.value;
+            }
+
+            const result = el.querySelector('[data-result]');
+            result.innerHTML = '<p>Loading...</p>';
+            try {
+                const response = await fetch(url, options);
+                const text = await response.text();
+                let pretty = text;
+                try { pretty = JSON.stringify(JSON.parse(text), null, 2); } catch (e) {}
+                result.innerHTML = \`<h4>\${response.status} \${escapeHtml(response.statusText)}</h4><pre>\${escapeHtml(pretty)}</pre>\`;
+            } catch (error) {
+                result.innerHTML = \`<pre>Error: \${escapeHtml(error.message)}</pre>\`;
+            }
+        }
+
+        (async () => {
+            const spec = await (await fetch('${specUrl}')).json();
+            const groups = {};
+            let index = 0;
+            for (const [path, methods] of Object.entries(spec.paths)) {
+                for (const [method, op] of Object.entries(methods)) {
+                    const tag = (op.tags && op.tags[0]) || 'other';
+                    (groups[tag] = groups[tag] || []).push(renderOperation(spec, path, method, op, index++));
+                }
+            }
+            document.getElementById('operations').innerHTML = spec.tags
+                .filter((tag) => groups[tag.name])
+                .map((tag) => \`<h2>\${escapeHtml(tag.name)}</h2><p>\${escapeHtml(tag.description || '')}</p>\${groups[tag.name].join('')}\`)
+                .join('');
+        })();
+    </script>
+</body>
+</html>
+`;
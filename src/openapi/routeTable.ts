@@ -0,0 +1,261 @@
+/**
+ * Route Table
+ * Non-tool HTTP routes, used to generate the OpenAPI document.
+ * Tool routes are generated from the tool registry.
+ */
+import { isMockFacilitatorEnabled } from "../config/payment.config.js";
+
+export type HttpMethod = "get" | "post" | "delete";
+
+export interface RouteDoc {
+  method: HttpMethod;
+  path: string;
+  tag: "server" | "mcp" | "jsonrpc" | "transport" | "accounts" | "ledger" | "docs" | "sandbox" | "facilitator";
+  summary: string;
+  description?: string;
+  // Component schema names (see document.ts)
+  requestSchema?: string;
+  responseSchema?: string;
+  responseContentType?: string;
+  // Security scheme name (see document.ts)
+  security?: "x402" | "apiKey" | "adminKey";
+  // For routes mounted only in some setups: documented when this returns true
+  enabled?: () => boolean;
+}
+
+export const ROUTE_TABLE: RouteDoc[] = [
+  {
+    method: "get",
+    path: "/",
+    tag: "server",
+    summary: "Server info and capabilities",
+    responseSchema: "ServerInfo",
+  },
+  {
+    method: "get",
+    path: "/health",
+    tag: "server",
+    summary: "Health check",
+    responseSchema: "Health",
+  },
+  {
+    method: "get",
+    path: "/info",
+    tag: "server",
+    summary: "Detailed server information",
+    responseSchema: "ServerInfo",
+  },
+  {
+    method: "get",
+    path: "/openapi.json",
+    tag: "docs",
+    summary: "This OpenAPI document",
+  },
+  {
+    method: "get",
+    path: "/docs",
+    tag: "docs",
+    summary: "Interactive API explorer",
+    responseContentType: "text/html",
+  },
+  {
+    method: "post",
+    path: "/mcp/initialize",
+    tag: "mcp",
+    summary: "Initialize MCP connection",
+    requestSchema: "InitializeRequest",
+    responseSchema: "InitializeResult",
+  },
+  {
+    method: "get",
+    path: "/mcp/tools",
+    tag: "mcp",
+    summary: "List all tools with REST endpoints and pricing",
+    responseSchema: "ToolListing",
+  },
+  {
+    method: "get",
+    path: "/mcp/prompts",
+    tag: "mcp",
+    summary: "List all prompts",
+    responseSchema: "PromptListing",
+  },
+  {
+    method: "get",
+    path: "/mcp/resources",
+    tag: "mcp",
+    summary: "List all resources",
+    responseSchema: "ResourceListing",
+  },
+  {
+    method: "post",
+    path: "/mcp",
+    tag: "jsonrpc",
+    summary: "JSON-RPC 2.0 endpoint (single request or batch)",
+    description:
+      "Also the MCP Streamable HTTP endpoint when the client sends an Mcp-Session-Id header " +
+      "or accepts text/event-stream. When payment is enabled each tools/call costs its tool's " +
+      "catalog price and discovery methods are free; one payment covers a whole batch.",
+    requestSchema: "JsonRpcBody",
+    responseSchema: "JsonRpcResponseBody",
+  },
+  {
+    method: "get",
+    path: "/mcp",
+    tag: "transport",
+    summary: "Streamable HTTP server-to-client stream (requires Mcp-Session-Id)",
+    responseContentType: "text/event-stream",
+  },
+  {
+    method: "delete",
+    path: "/mcp",
+    tag: "transport",
+    summary: "Terminate a Streamable HTTP session (requires Mcp-Session-Id)",
+  },
+  {
+    method: "get",
+    path: "/mcp/sse",
+    tag: "transport",
+    summary: "Open an MCP SSE session",
+    responseContentType: "text/event-stream",
+  },
+  {
+    method: "post",
+    path: "/mcp/messages",
+    tag: "transport",
+    summary: "Send a message to an MCP SSE session (query: sessionId)",
+    requestSchema: "JsonRpcRequest",
+  },
+  {
+    method: "post",
+    path: "/accounts/topup",
+    tag: "accounts",
+    summary: "Buy prepaid credits with an x402 payment",
+    description:
+      "Costs the requested amount. Without an API key a new account is opened and its key " +
+      "is returned once (201); with one, that account is topped up.",
+    requestSchema: "TopUpRequest",
+    responseSchema: "AccountBalance",
+    security: "x402",
+  },
+  {
+    method: "get",
+    path: "/accounts/balance",
+    tag: "accounts",
+    summary: "Prepaid credit balance",
+    responseSchema: "AccountBalance",
+    security: "apiKey",
+  },
+  {
+    method: "get",
+    path: "/accounts/usage",
+    tag: "accounts",
+    summary: "Credit usage and top-up history, newest first (query: limit)",
+    responseSchema: "AccountUsage",
+    security: "apiKey",
+  },
+  {
+    method: "get",
+    path: "/receipts/{id}",
+    tag: "ledger",
+    summary: "Receipt of a paid call, by the id from the X-Payment-Receipt header",
+    responseSchema: "LedgerEntry",
+  },
+  {
+    method: "get",
+    path: "/admin/ledger",
+    tag: "ledger",
+    summary: "Query settled payments, newest first",
+    description:
+      "Filters: tool, method (x402 or credits), network, payer, refundDue (true or false), " +
+      "from, to (ISO timestamps), limit. " +
+      "format=csv exports the same entries as CSV.",
+    responseSchema: "LedgerPage",
+    security: "adminKey",
+  },
+  {
+    method: "get",
+    path: "/admin/ledger/summary",
+    tag: "ledger",
+    summary: "Revenue per payment method, tool and network (same filters as /admin/ledger)",
+    security: "adminKey",
+  },
+  {
+    method: "get",
+    path: "/test/payment-flow",
+    tag: "sandbox",
+    summary: "Payment flow walkthrough with the 402 response calculate really sends",
+  },
+  {
+    method: "get",
+    path: "/test/payment-info/{tool}",
+    tag: "sandbox",
+    summary: "Price and payment options of a tool (by name or REST path)",
+  },
+  {
+    method: "post",
+    path: "/test/verify-payment",
+    tag: "sandbox",
+    summary: "Check an X-PAYMENT header against a tool's price without settling it",
+    description: "Body: { tool, paymentHeader }.",
+  },
+  {
+    method: "post",
+    path: "/test/protected-call",
+    tag: "sandbox",
+    summary: "Call a tool like a client would, with an optional X-PAYMENT header",
+    description: "Body: { tool, arguments }.",
+  },
+  {
+    method: "post",
+    path: "/test/pay-and-retry",
+    tag: "sandbox",
+    summary: "Run the unpaid call, payment and paid retry with a test wallet",
+    description:
+      "Body: { tool, arguments, wallet, expired }, all optional. " +
+      "Only runs when the mock facilitator is in use (503 otherwise).",
+  },
+  {
+    method: "get",
+    path: "/test/interactive",
+    tag: "sandbox",
+    summary: "Interactive payment test page",
+    responseContentType: "text/html",
+  },
+  {
+    method: "post",
+    path: "/facilitator/verify",
+    tag: "facilitator",
+    summary: "x402 verify against the mock facilitator (no funds move)",
+    enabled: isMockFacilitatorEnabled,
+  },
+  {
+    method: "post",
+    path: "/facilitator/settle",
+    tag: "facilitator",
+    summary: "x402 settle: moves mock balances and burns the nonce",
+    enabled: isMockFacilitatorEnabled,
+  },
+  {
+    method: "get",
+    path: "/facilitator/supported",
+    tag: "facilitator",
+    summary: "Payment kinds the mock facilitator supports",
+    enabled: isMockFacilitatorEnabled,
+  },
+  {
+    method: "get",
+    path: "/facilitator/wallets",
+    tag: "facilitator",
+    summary: "Test wallets and their mock USDC balances",
+    enabled: isMockFacilitatorEnabled,
+  },
+  {
+    method: "post",
+    path: "/facilitator/sign",
+    tag: "facilitator",
+    summary: "Sign an X-PAYMENT header for payment requirements with a test wallet",
+    description: "Body: { paymentRequirements, wallet, expired }.",
+    enabled: isMockFacilitatorEnabled,
+  },
+];
@@ -0,0 +1,30 @@
+import { resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { PromptLibrary } from "./library.js";
+import { loadPromptDirectory } from "./loader.js";
+
+export { PromptLibrary, PromptArgumentError } from "./library.js";
+export { PromptDefinitionError, loadPromptDirectory, parsePromptFile } from "./loader.js";
+export { TemplateSyntaxError, parseTemplate, renderTemplate } from "./template.js";
+export type * from "./types.js";
+
+// prompts/ at the project root, from both src/prompts and dist/prompts
+const DEFAULT_PROMPTS_DIR = fileURLToPath(new URL("../../prompts", import.meta.url));
+
+let promptLibrary: PromptLibrary | undefined;
+
+// Shared library loaded from PROMPTS_DIR (default: prompts/). Loaded on first
+// use so .env is read by then; a broken file throws, naming the file.
+export const getPromptLibrary = (): PromptLibrary => {
+  if (!promptLibrary) {
+    const dir = process.env.PROMPTS_DIR ? resolve(process.env.PROMPTS_DIR) : DEFAULT_PROMPTS_DIR;
+    promptLibrary = new PromptLibrary(loadPromptDirectory(dir));
+    console.log(`📝 Loaded ${promptLibrary.getAll().length} prompts from ${dir}`);
+  }
+  return promptLibrary;
+};
+
+// Install another library (e.g. templates parsed in tests)
+export const setPromptLibrary = (library: PromptLibrary) => {
+  promptLibrary = library;
+};
@@ -0,0 +1,197 @@
+import type { ValidationIssue } from "../tools/validation.js";
+import { completeValues, type CompletionResult } from "../completion/index.js";
+import { evaluateCondition, renderTemplate } from "./template.js";
+import type {
+  PromptArgumentDefinition,
+  PromptMessage,
+  PromptTemplate,
+  PromptValue,
+  ResourceReader,
+} from "./types.js";
+
+/**
+ * Thrown when prompt arguments don't match the prompt's declarations.
+ * Transports map it to their invalid-params error (-32602), like tool arguments.
+ */
+export class PromptArgumentError extends Error {
+  constructor(public promptName: string, public issues: ValidationIssue[]) {
+    super(
+      `Invalid arguments for prompt ${promptName}: ` +
+        issues.map((issue) => `${issue.field} ${issue.message}`).join("; ")
+    );
+    this.name = "PromptArgumentError";
+  }
+}
+
+// Helper to read one argument value; clients send strings, JSON-RPC callers
+// may send the typed value directly
+const coerceArgument = (
+  arg: PromptArgumentDefinition,
+  value: unknown
+): { value: PromptValue } | { issue: ValidationIssue } => {
+  const type = arg.type ?? "string";
+  const field = arg.name;
+
+  if (type === "number") {
+    const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+    if (typeof number !== "number" || !Number.isFinite(number)) {
+      return { issue: { field, message: "must be a number", expected: "number", received: value } };
+    }
+    return { value: number };
+  }
+
+  if (type === "boolean") {
+    if (value === true || value === "true") return { value: true };
+    if (value === false || value === "false") return { value: false };
+    return { issue: { field, message: "must be true or false", expected: "boolean", received: value } };
+  }
+
+  if (typeof value !== "string") {
+    return { issue: { field, message: "must be of type string", expected: "string", received: typeof value } };
+  }
+  if (arg.enum && !arg.enum.includes(value)) {
+    return { issue: { field, message: `must be one of: ${arg.enum.join(", ")}`, expected: arg.enum, received: value } };
+  }
+  return { value };
+};
+
+// Blank lines left by empty optional parts collapse to one
+const tidy = (text: string): string => text.replace(/\n{3,}/g, "\n\n").trim();
+
+/**
+ * Prompt Library
+ * Prompts loaded from template files, listed in MCP format and rendered into
+ * messages after their arguments are validated
+ */
+export class PromptLibrary {
+  private prompts = new Map<string, PromptTemplate>();
+
+  constructor(templates: PromptTemplate[]) {
+    for (const template of templates) {
+      if (this.prompts.has(template.name)) {
+        throw new Error(`Prompt already registered: ${template.name}`);
+      }
+      this.prompts.set(template.name, template);
+    }
+  }
+
+  has(name: string): boolean {
+    return this.prompts.has(name);
+  }
+
+  getAll(): PromptTemplate[] {
+    return Array.from(this.prompts.values());
+  }
+
+  // Prompt listing in MCP format; allowed values and defaults are spelled
+  // out in the descriptions, as MCP arguments have no fields for them
+  list() {
+    return this.getAll().map(({ name, description, arguments: args }) => ({
+      name,
+      description,
+      arguments: args.map((arg) => {
+        const notes = [
+          arg.enum ? `one of: ${arg.enum.join(", ")}` : arg.type && arg.type !== "string" ? arg.type : undefined,
+          arg.default !== undefined ? `default: ${arg.default}` : undefined,
+        ].filter(Boolean);
+        return {
+          name: arg.name,
+          description: notes.length > 0 ? `${arg.description} (${notes.join("; ")})` : arg.description,
+          required: arg.required ?? false,
+        };
+      }),
+    }));
+  }
+
+  /**
+   * Complete a partial argument value for completion/complete, from the
+   * argument's enum, its suggestions, or true/false for booleans. Arguments
+   * without a value set get no values; unknown prompts and arguments throw.
+   */
+  complete(name: string, argumentName: string, value: string): CompletionResult {
+    const template = this.prompts.get(name);
+    if (!template) {
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+    const arg = template.arguments.find((candidate) => candidate.name === argumentName);
+    if (!arg) {
+      throw new Error(`Prompt ${name} has no argument ${argumentName}`);
+    }
+    const candidates = arg.enum ?? arg.suggestions ?? (arg.type === "boolean" ? ["true", "false"] : []);
+    return completeValues(candidates, value);
+  }
+
+  // Validate arguments and fill in defaults; throws PromptArgumentError
+  resolveArguments(template: PromptTemplate, args: Record<string, unknown> = {}): Record<string, PromptValue | undefined> {
+    const issues: ValidationIssue[] = [];
+    const values: Record<string, PromptValue | undefined> = {};
+    const declared = new Set(template.arguments.map((arg) => arg.name));
+
+    for (const field of Object.keys(args)) {
+      if (!declared.has(field)) {
+        issues.push({ field, message: "is not an argument of this prompt", expected: [...declared], received: field });
+      }
+    }
+
+    for (const arg of template.arguments) {
+      const value = args[arg.name];
+      if (value === undefined || value === null || value === "") {
+        if (arg.required) {
+          issues.push({ field: arg.name, message: "is required" });
+        }
+        values[arg.name] = arg.default;
+        continue;
+      }
+      const result = coerceArgument(arg, value);
+      if ("issue" in result) {
+        issues.push(result.issue);
+      } else {
+        values[arg.name] = result.value;
+      }
+    }
+
+    if (issues.length > 0) {
+      throw new PromptArgumentError(template.name, issues);
+    }
+    return values;
+  }
+
+  /**
+   * Render a prompt into MCP messages. Unknown prompts throw; system
+   * sections become user messages marked _meta.role = "system", and
+   * resources are read through readResource and embedded.
+   */
+  render(name: string, args: Record<string, unknown> | undefined, readResource: ResourceReader) {
+    const template = this.prompts.get(name);
+    if (!template) {
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+    const values = this.resolveArguments(template, args);
+
+    const messages = template.sections.flatMap((section): PromptMessage[] => {
+      if (section.condition && !evaluateCondition(section.condition, values)) {
+        return [];
+      }
+      if (section.kind === "resource") {
+        return readResource(section.uri).contents.map((resource) => ({
+          role: "user",
+          content: { type: "resource", resource },
+        }));
+      }
+      const text = tidy(renderTemplate(section.body, values));
+      if (text === "") {
+        return [];
+      }
+      return [{
+        role: section.role === "assistant" ? "assistant" : "user",
+        content: {
+          type: "text",
+          text,
+          ...(section.role === "system" ? { _meta: { role: "system" as const } } : {}),
+        },
+      }];
+    });
+
+    return { description: template.description, messages };
+  }
+}
@@ -0,0 +1,205 @@
+import { readdirSync, readFileSync } from "node:fs";
+import { basename, join } from "node:path";
+import { TemplateSyntaxError, collectReferences, parseCondition, parseTemplate } from "./template.js";
+import type {
+  PromptArgumentDefinition,
+  PromptRole,
+  PromptSection,
+  PromptTemplate,
+  TemplateCondition,
+} from "./types.js";
+
+/**
+ * Thrown for a prompt file that cannot be loaded; names the file
+ */
+export class PromptDefinitionError extends Error {
+  constructor(public file: string, message: string) {
+    super(`${file}: ${message}`);
+    this.name = "PromptDefinitionError";
+  }
+}
+
+const PROMPT_NAME = /^[a-z][a-z0-9_]*$/;
+const ARGUMENT_NAME = /^[a-z_][a-z0-9_]*$/i;
+const SECTION_HEADER = /^@(system|user|assistant|resource)\b(.*)$/;
+// "<target> if <condition>", where the target (a resource URI) is optional
+const HEADER_CONDITION = /^(?:(\S+)\s+)?if\s+(.+)$/;
+const ARGUMENT_KEYS = new Set(["name", "description", "required", "type", "enum", "suggestions", "default"]);
+
+// Helper to check one argument declaration, returning the problem if any
+const checkArgument = (arg: any, index: number): string | undefined => {
+  const label = `arguments[${index}]`;
+  if (typeof arg !== "object" || arg === null || Array.isArray(arg)) {
+    return `${label} must be an object`;
+  }
+  const unknownKey = Object.keys(arg).find((key) => !ARGUMENT_KEYS.has(key));
+  if (unknownKey) {
+    return `${label} has unknown key "${unknownKey}"`;
+  }
+  if (typeof arg.name !== "string" || !ARGUMENT_NAME.test(arg.name)) {
+    return `${label}.name must be an identifier such as "error_type"`;
+  }
+  if (typeof arg.description !== "string") {
+    return `argument ${arg.name} needs a description`;
+  }
+  if (arg.required !== undefined && typeof arg.required !== "boolean") {
+    return `argument ${arg.name}: required must be true or false`;
+  }
+  const type = arg.type ?? "string";
+  if (!["string", "number", "boolean"].includes(type)) {
+    return `argument ${arg.name}: type must be string, number or boolean`;
+  }
+  if (arg.enum !== undefined) {
+    if (type !== "string" || !Array.isArray(arg.enum) || arg.enum.length === 0 ||
+        !arg.enum.every((value: unknown) => typeof value === "string")) {
+      return `argument ${arg.name}: enum must be a non-empty list of strings on a string argument`;
+    }
+  }
+  if (arg.suggestions !== undefined) {
+    if (type !== "string" || arg.enum !== undefined || !Array.isArray(arg.suggestions) ||
+        !arg.suggestions.every((value: unknown) => typeof value === "string")) {
+      return `argument ${arg.name}: suggestions must be a list of strings on a string argument without an enum`;
+    }
+  }
+  if (arg.default !== undefined) {
+    if (arg.required) {
+      return `argument ${arg.name} is required, so it cannot have a default`;
+    }
+    if (typeof arg.default !== type || (arg.enum && !arg.enum.includes(arg.default))) {
+      return `argument ${arg.name}: default ${JSON.stringify(arg.default)} does not fit the argument`;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Parse one prompt file. The file starts with JSON frontmatter between "---"
+ * lines ({ description, arguments }), followed by sections that each start
+ * with a header line:
+ *   @system / @user / @assistant [if cond]   a message; the lines below are its template
+ *   @resource <uri> [if cond]                 embed a resource in a user message
+ * The prompt is named after the file ("code_review.md" is code_review).
+ */
+export const parsePromptFile = (file: string, source: string): PromptTemplate => {
+  const name = basename(file, ".md");
+  if (!PROMPT_NAME.test(name)) {
+    throw new PromptDefinitionError(file, `"${name}" is not a valid prompt name (use lowercase letters, digits and _)`);
+  }
+
+  const lines = source.replace(/\r\n/g, "\n").split("\n");
+  const close = lines.indexOf("---", 1);
+  if (lines[0] !== "---" || close === -1) {
+    throw new PromptDefinitionError(file, "must start with JSON frontmatter between \"---\" lines");
+  }
+
+  let meta: any;
+  try {
+    meta = JSON.parse(lines.slice(1, close).join("\n"));
+  } catch (error) {
+    throw new PromptDefinitionError(file, `invalid frontmatter JSON: ${(error as Error).message}`);
+  }
+  if (typeof meta?.description !== "string") {
+    throw new PromptDefinitionError(file, "frontmatter needs a description");
+  }
+  const args: PromptArgumentDefinition[] = meta.arguments ?? [];
+  if (!Array.isArray(args)) {
+    throw new PromptDefinitionError(file, "frontmatter arguments must be a list");
+  }
+  args.forEach((arg, index) => {
+    const problem = checkArgument(arg, index);
+    if (problem) {
+      throw new PromptDefinitionError(file, problem);
+    }
+  });
+  const declared = new Map(args.map((arg) => [arg.name, arg]));
+  if (declared.size !== args.length) {
+    throw new PromptDefinitionError(file, "argument names must be unique");
+  }
+
+  // Split the body into sections at header lines
+  const sections: PromptSection[] = [];
+  const references: { name: string; line: number; equals?: string }[] = [];
+  let open: { role: PromptRole; condition?: TemplateCondition; start: number; body: string[] } | undefined;
+
+  const closeSection = () => {
+    if (!open) return;
+    const body = parseTemplate(open.body.join("\n"), open.start + 1);
+    references.push(...collectReferences(body));
+    sections.push({ kind: "text", role: open.role, condition: open.condition, body });
+    open = undefined;
+  };
+
+  try {
+    for (let index = close + 1; index < lines.length; index++) {
+      const line = lines[index];
+      const lineNumber = index + 1;
+      const header = line.match(SECTION_HEADER);
+      if (!header) {
+        if (open) {
+          open.body.push(line);
+        } else if (line.trim() !== "") {
+          throw new TemplateSyntaxError("text before the first @system, @user, @assistant or @resource line", lineNumber);
+        }
+        continue;
+      }
+
+      closeSection();
+      const [, kind, rest] = header;
+      const conditional = rest.trim().match(HEADER_CONDITION);
+      const target = conditional ? conditional[1] ?? "" : rest.trim();
+      const condition = conditional ? parseCondition(conditional[2].trim(), lineNumber) : undefined;
+      if (condition) {
+        references.push({ name: condition.name, line: lineNumber, equals: condition.equals });
+      }
+
+      if (kind === "resource") {
+        if (!/^[a-z][a-z0-9+.-]*:\/\/\S+$/i.test(target)) {
+          throw new TemplateSyntaxError("@resource needs a URI such as fluidsdk://docs/api", lineNumber);
+        }
+        sections.push({ kind: "resource", uri: target, condition });
+      } else {
+        if (target !== "") {
+          throw new TemplateSyntaxError(`unexpected "${target}" after @${kind}`, lineNumber);
+        }
+        open = { role: kind as PromptRole, condition, start: lineNumber, body: [] };
+      }
+    }
+    closeSection();
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) {
+      throw new PromptDefinitionError(file, error.message);
+    }
+    throw error;
+  }
+
+  if (sections.length === 0) {
+    throw new PromptDefinitionError(file, "has no @system, @user, @assistant or @resource sections");
+  }
+
+  // Every name used must be declared, and compared values must be allowed
+  for (const reference of references) {
+    const arg = declared.get(reference.name);
+    if (!arg) {
+      throw new PromptDefinitionError(file, `line ${reference.line}: "${reference.name}" is not a declared argument`);
+    }
+    if (reference.equals !== undefined && arg.enum && !arg.enum.includes(reference.equals)) {
+      throw new PromptDefinitionError(
+        file,
+        `line ${reference.line}: "${reference.equals}" is not one of ${arg.name}'s values (${arg.enum.join(", ")})`
+      );
+    }
+  }
+
+  return { name, description: meta.description, arguments: args, sections, file };
+};
+
+// Helper to load every *.md prompt file in a directory, sorted by name
+export const loadPromptDirectory = (dir: string): PromptTemplate[] => {
+  let files: string[];
+  try {
+    files = readdirSync(dir).filter((file) => file.endsWith(".md")).sort();
+  } catch (error) {
+    throw new PromptDefinitionError(dir, `cannot read prompt directory: ${(error as Error).message}`);
+  }
+  return files.map((file) => parsePromptFile(file, readFileSync(join(dir, file), "utf8")));
+};
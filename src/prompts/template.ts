@@ -0,0 +1,176 @@
+import type { PromptValue, TemplateCondition, TemplateNode } from "./types.js";
+
+/**
+ * Thrown for template text that cannot be parsed
+ */
+export class TemplateSyntaxError extends Error {
+  constructor(message: string, public line: number) {
+    super(`line ${line}: ${message}`);
+    this.name = "TemplateSyntaxError";
+  }
+}
+
+const TAG = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+const IDENTIFIER = /^[a-z_][a-z0-9_]*$/i;
+const NAME_CONDITION = /^(!)?\s*([a-z_][a-z0-9_]*)$/i;
+const COMPARE_CONDITION = /^([a-z_][a-z0-9_]*)\s*(==|!=)\s*"([^"]*)"$/i;
+
+// Helper to parse the condition of {{#if ...}}, {{else if ...}} or a section header
+export const parseCondition = (source: string, line: number): TemplateCondition => {
+  const compare = source.match(COMPARE_CONDITION);
+  if (compare) {
+    return { name: compare[1], negate: compare[2] === "!=", equals: compare[3] };
+  }
+  const name = source.match(NAME_CONDITION);
+  if (name) {
+    return { name: name[2], negate: name[1] === "!" };
+  }
+  throw new TemplateSyntaxError(
+    `Invalid condition "${source}"; use name, !name, name == "value" or name != "value"`,
+    line
+  );
+};
+
+interface OpenBlock {
+  node: Extract<TemplateNode, { type: "if" }>;
+  // Nodes of the branch being read (the else branch once {{else}} is seen)
+  body: TemplateNode[];
+  parent: TemplateNode[];
+  line: number;
+  hasElse: boolean;
+}
+
+/**
+ * Parse template text into nodes. Supported tags:
+ *   {{name}}                          the argument's value ("" when not given)
+ *   {{#if cond}} {{else if cond}} {{else}} {{/if}}
+ * A block tag alone on its line takes the whole line with it, so conditionals
+ * don't leave blank lines behind. firstLine numbers the lines in errors.
+ */
+export const parseTemplate = (source: string, firstLine: number = 1): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  let current = root;
+  let cursor = 0;
+
+  const lineAt = (index: number): number => firstLine + (source.slice(0, index).match(/\n/g)?.length ?? 0);
+  const pushText = (value: string) => {
+    if (value) {
+      current.push({ type: "text", value });
+    }
+  };
+
+  for (const match of source.matchAll(TAG)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    const tag = match[1];
+    const line = lineAt(start);
+
+    if (IDENTIFIER.test(tag) && tag !== "else") {
+      pushText(source.slice(cursor, start));
+      current.push({ type: "variable", name: tag, line });
+      cursor = end;
+      continue;
+    }
+
+    // Block tags alone on their line swallow the line
+    const lineStart = source.lastIndexOf("\n", start - 1) + 1;
+    const newline = source.indexOf("\n", end);
+    const lineEnd = newline === -1 ? source.length : newline;
+    const standalone =
+      lineStart >= cursor &&
+      source.slice(lineStart, start).trim() === "" &&
+      source.slice(end, lineEnd).trim() === "";
+    pushText(source.slice(cursor, standalone ? lineStart : start));
+    cursor = standalone ? Math.min(lineEnd + 1, source.length) : end;
+
+    if (tag.startsWith("#if ")) {
+      const node: OpenBlock["node"] = { type: "if", branches: [], otherwise: [] };
+      const body: TemplateNode[] = [];
+      node.branches.push({ condition: parseCondition(tag.slice(4).trim(), line), body, line });
+      current.push(node);
+      stack.push({ node, body, parent: current, line, hasElse: false });
+      current = body;
+    } else if (tag.startsWith("else if ") || tag === "else") {
+      const block = stack[stack.length - 1];
+      if (!block) {
+        throw new TemplateSyntaxError(`{{${tag}}} without {{#if}}`, line);
+      }
+      if (block.hasElse) {
+        throw new TemplateSyntaxError(`{{${tag}}} after {{else}}`, line);
+      }
+      if (tag === "else") {
+        block.hasElse = true;
+        current = block.node.otherwise;
+      } else {
+        const body: TemplateNode[] = [];
+        block.node.branches.push({ condition: parseCondition(tag.slice(8).trim(), line), body, line });
+        current = body;
+      }
+    } else if (tag === "/if") {
+      const block = stack.pop();
+      if (!block) {
+        throw new TemplateSyntaxError("{{/if}} without {{#if}}", line);
+      }
+      current = block.parent;
+    } else {
+      throw new TemplateSyntaxError(`Unknown tag "{{${tag}}}"`, line);
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new TemplateSyntaxError("{{#if}} is never closed with {{/if}}", stack[stack.length - 1].line);
+  }
+  pushText(source.slice(cursor));
+  return root;
+};
+
+// Helper to list every argument a template refers to, with the line it is on
+// and the value it is compared with, if any
+export const collectReferences = (nodes: TemplateNode[]): { name: string; line: number; equals?: string }[] => {
+  return nodes.flatMap((node) => {
+    switch (node.type) {
+      case "text":
+        return [];
+      case "variable":
+        return [{ name: node.name, line: node.line }];
+      case "if":
+        return [
+          ...node.branches.flatMap(({ condition, body, line }) => [
+            { name: condition.name, line, equals: condition.equals },
+            ...collectReferences(body),
+          ]),
+          ...collectReferences(node.otherwise),
+        ];
+    }
+  });
+};
+
+// Given arguments count as true unless empty or false
+export const evaluateCondition = (
+  condition: TemplateCondition,
+  values: Record<string, PromptValue | undefined>
+): boolean => {
+  const value = values[condition.name];
+  const result = condition.equals !== undefined
+    ? value !== undefined && String(value) === condition.equals
+    : value !== undefined && value !== "" && value !== false;
+  return condition.negate ? !result : result;
+};
+
+export const renderTemplate = (nodes: TemplateNode[], values: Record<string, PromptValue | undefined>): string => {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.value;
+        case "variable":
+          return String(values[node.name] ?? "");
+        case "if": {
+          const branch = node.branches.find(({ condition }) => evaluateCondition(condition, values));
+          return renderTemplate(branch ? branch.body : node.otherwise, values);
+        }
+      }
+    })
+    .join("");
+};
@@ -0,0 +1,71 @@
+/**
+ * Shared types for the prompt library
+ */
+
+export type PromptArgumentType = "string" | "number" | "boolean";
+
+export type PromptValue = string | number | boolean;
+
+// One argument as declared in a template file's frontmatter
+export interface PromptArgumentDefinition {
+  name: string;
+  description: string;
+  required?: boolean;
+  // Clients always send strings; numbers and booleans are parsed from them
+  type?: PromptArgumentType;
+  // Allowed values (string arguments only)
+  enum?: string[];
+  // Values offered by completion/complete without restricting the argument
+  // (string arguments without an enum)
+  suggestions?: string[];
+  default?: PromptValue;
+}
+
+// {{#if name}}, {{#if !name}}, {{#if name == "x"}}, {{#if name != "x"}}
+export interface TemplateCondition {
+  name: string;
+  negate: boolean;
+  equals?: string;
+}
+
+export type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "variable"; name: string; line: number }
+  | {
+      type: "if";
+      branches: { condition: TemplateCondition; body: TemplateNode[]; line: number }[];
+      otherwise: TemplateNode[];
+    };
+
+// MCP prompt messages only have user and assistant roles; system sections are
+// sent as user messages marked with _meta.role = "system"
+export type PromptRole = "system" | "user" | "assistant";
+
+export type PromptSection =
+  | { kind: "text"; role: PromptRole; condition?: TemplateCondition; body: TemplateNode[] }
+  | { kind: "resource"; uri: string; condition?: TemplateCondition };
+
+export interface PromptTemplate {
+  name: string;
+  description: string;
+  arguments: PromptArgumentDefinition[];
+  sections: PromptSection[];
+  // File it was loaded from, for error messages
+  file: string;
+}
+
+export type ResourceContents = { uri: string; mimeType?: string; text: string };
+
+// Type aliases (not interfaces) so results stay assignable to the SDK's
+// index-signature result types
+export type PromptMessage = {
+  role: "user" | "assistant";
+  content:
+    | { type: "text"; text: string; _meta?: { role: PromptRole } }
+    | { type: "resource"; resource: ResourceContents };
+};
+
+// What resources/read returns, as far as prompts need it
+export type ResourceReader = (uri: string) => {
+  contents: ResourceContents[];
+};
@@ -0,0 +1,82 @@
+import type { Request } from "express";
+import { exact } from "x402/schemes";
+import { findMatchingPaymentRequirements } from "x402/shared";
+import type { PaymentPayload } from "x402/types";
+import type { useFacilitator } from "x402/verify";
+import { getAccountStore, getApiKey } from "../accounts/index.js";
+import { getPaymentOptions, isSolanaNetwork } from "../config/payment.config.js";
+import { createPaymentRequirement, type PaymentQuote } from "../middleware/x402Payment.js";
+import { FreeTierStore } from "./store.js";
+
+type VerifyPayment = ReturnType<typeof useFacilitator>["verify"];
+
+export { FreeTierStore } from "./store.js";
+
+let freeTierStore: FreeTierStore | undefined;
+
+// Shared store, so allowances are counted across every endpoint
+export const getFreeTierStore = (): FreeTierStore => {
+  freeTierStore ??= new FreeTierStore();
+  return freeTierStore;
+};
+
+// Helper to find the wallet paying for a request, once the facilitator has
+// verified its X-PAYMENT header against the request's price (signature,
+// amount and funds). A signature alone proves nothing: fresh unfunded keys
+// cost nothing to make, so each would get a new allowance. Undefined when
+// there is no header or it does not verify.
+export const getVerifiedPaymentWallet = async (
+  req: Request,
+  quote: PaymentQuote,
+  verify: VerifyPayment
+): Promise<string | undefined> => {
+  const header = req.header("X-PAYMENT");
+  if (!header) {
+    return undefined;
+  }
+  let payment: PaymentPayload;
+  try {
+    payment = exact.evm.decodePayment(header);
+  } catch {
+    return undefined;
+  }
+
+  // Solana requirements need the facilitator's fee payer; those clients are
+  // counted by IP
+  const resource = `${req.protocol}://${req.headers.host}${req.path}`;
+  const requirements = getPaymentOptions(quote.pricing)
+    .filter((option) => !isSolanaNetwork(option.network))
+    .map((option) => createPaymentRequirement(option, quote, resource, req.method));
+  const selected = findMatchingPaymentRequirements(requirements, payment);
+  if (!selected) {
+    return undefined;
+  }
+
+  try {
+    const response = await verify(payment, selected);
+    return response.isValid && response.payer ? response.payer.toLowerCase() : undefined;
+  } catch (error) {
+    console.error("❌ Could not verify the payment identifying a free-tier client:", error);
+    return undefined;
+  }
+};
+
+// Helper to identify who a free allowance belongs to: the account of a valid
+// API key, else the wallet whose X-PAYMENT the facilitator verified, else the
+// client IP. Undefined for an unknown API key, which credit billing rejects.
+export const getFreeTierClientId = async (
+  req: Request,
+  quote: PaymentQuote,
+  verify: VerifyPayment
+): Promise<string | undefined> => {
+  const apiKey = getApiKey(req.headers);
+  if (apiKey) {
+    const account = getAccountStore().findByApiKey(apiKey);
+    return account ? `account:${account.id}` : undefined;
+  }
+  const wallet = await getVerifiedPaymentWallet(req, quote, verify);
+  if (wallet) {
+    return `wallet:${wallet}`;
+  }
+  return `ip:${req.ip ?? req.socket.remoteAddress ?? "unknown"}`;
+};
@@ -0,0 +1,77 @@
+// Helper to name the current UTC day ("2025-01-31")
+const currentDay = (): string => new Date().toISOString().slice(0, 10);
+
+/**
+ * Free calls used per client and tool, counted per UTC day.
+ * Kept in memory; counts reset at midnight UTC and on restart.
+ */
+export class FreeTierStore {
+  private day = currentDay();
+  private used = new Map<string, number>();
+
+  // Free calls a client has left on a tool today
+  remaining(clientId: string, tool: string, limit: number): number {
+    this.rollOver();
+    return Math.max(limit - (this.used.get(this.key(clientId, tool)) ?? 0), 0);
+  }
+
+  // Use one free call per tool for every tool listed, or none of them when
+  // any is out of free calls; limits are per tool
+  take(clientId: string, tools: string[], limitFor: (tool: string) => number): boolean {
+    this.rollOver();
+    const needed = new Map<string, number>();
+    for (const tool of tools) {
+      needed.set(tool, (needed.get(tool) ?? 0) + 1);
+    }
+    for (const [tool, count] of needed) {
+      if (this.remaining(clientId, tool, limitFor(tool)) < count) {
+        return false;
+      }
+    }
+    for (const [tool, count] of needed) {
+      const key = this.key(clientId, tool);
+      this.used.set(key, (this.used.get(key) ?? 0) + count);
+    }
+    return true;
+  }
+
+  // Hand back free calls that did not deliver anything, if still the same day
+  giveBack(clientId: string, tools: string[], day: string) {
+    if (day !== this.day) {
+      return;
+    }
+    for (const tool of tools) {
+      const key = this.key(clientId, tool);
+      const used = this.used.get(key) ?? 0;
+      if (used <= 1) {
+        this.used.delete(key);
+      } else {
+        this.used.set(key, used - 1);
+      }
+    }
+  }
+
+  // Start of the next UTC day, when every allowance resets
+  get resetsAt(): string {
+    const next = new Date(`${currentDay()}T00:00:00.000Z`);
+    next.setUTCDate(next.getUTCDate() + 1);
+    return next.toISOString();
+  }
+
+  get today(): string {
+    this.rollOver();
+    return this.day;
+  }
+
+  private rollOver() {
+    const today = currentDay();
+    if (today !== this.day) {
+      this.day = today;
+      this.used.clear();
+    }
+  }
+
+  private key(clientId: string, tool: string): string {
+    return `${clientId}\n${tool}`;
+  }
+}
@@ -0,0 +1,47 @@
+import { createHash } from "node:crypto";
+import { ExactEvmPayloadSchema, type PaymentPayload, type PaymentRequirements } from "x402/types";
+import { PaymentReplayStore, type ReplayRejection } from "./store.js";
+
+export { PaymentReplayStore } from "./store.js";
+export type { ClaimResult, PaymentClaim, ReplayRejection } from "./store.js";
+
+let replayStore: PaymentReplayStore | undefined;
+
+// Shared store, so a payment used on one endpoint is known to all of them
+export const getReplayStore = (): PaymentReplayStore => {
+  replayStore ??= new PaymentReplayStore();
+  return replayStore;
+};
+
+// Helper to identify a payment proof for replay tracking: the hash of its
+// signed payload, plus the EIP-3009 nonce of EVM payments (what the chain
+// itself deduplicates on). Tracked until the authorization's validBefore, or
+// the requirements' timeout for payments without one (Solana).
+export const getPaymentKeys = (
+  payment: PaymentPayload,
+  requirements: PaymentRequirements
+): { keys: string[]; expiresAt: number } => {
+  const keys = [`payload:${createHash("sha256").update(JSON.stringify(payment.payload)).digest("hex")}`];
+  let expiresAt = Date.now() + requirements.maxTimeoutSeconds * 1000;
+
+  const evmPayload = ExactEvmPayloadSchema.safeParse(payment.payload);
+  if (evmPayload.success) {
+    const { from, nonce, validBefore } = evmPayload.data.authorization;
+    keys.push(`nonce:${payment.network}:${from.toLowerCase()}:${nonce.toLowerCase()}`);
+    expiresAt = Number(validBefore) * 1000;
+  }
+
+  return { keys, expiresAt };
+};
+
+// Helper to explain a rejected payment in a 402 response
+export const describeReplayRejection = (rejection: ReplayRejection, boundTo: string, resource: string): string => {
+  switch (rejection) {
+    case "already_used":
+      return "Payment has already been used";
+    case "in_use":
+      return "Payment is already being processed by another request";
+    case "resource_mismatch":
+      return `Payment was made for ${boundTo} and cannot be used for ${resource}`;
+  }
+};
@@ -0,0 +1,97 @@
+// How a payment proof is tracked: the resource it was first presented to
+// ("POST /mcp/calculate") and whether it is being processed or already paid
+export interface PaymentClaim {
+  keys: string[];
+  resource: string;
+  status: "in_use" | "released" | "consumed";
+  // Epoch ms when the payment's validity window closes
+  expiresAt: number;
+}
+
+export type ReplayRejection = "already_used" | "in_use" | "resource_mismatch";
+
+export type ClaimResult =
+  | { claim: PaymentClaim }
+  | { rejection: ReplayRejection; boundTo: string };
+
+// Expired claims are swept at most this often
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Consumed payment nonces and payload hashes, kept in memory until each
+ * payment's validity window closes.
+ * A proof is bound to the resource it was first presented to. It can be
+ * retried there while it has not been settled, and never used again once it
+ * has.
+ */
+export class PaymentReplayStore {
+  private claims = new Map<string, PaymentClaim>();
+  private lastSweep = 0;
+
+  // Reserve a payment for a resource; returns why it cannot be used instead
+  // when it was used before, is in flight, or was bound to another resource
+  claim(keys: string[], resource: string, expiresAt: number): ClaimResult {
+    this.sweep();
+
+    const existing = keys.map((key) => this.claims.get(key)).find((claim) => claim !== undefined);
+    if (existing) {
+      if (existing.resource !== resource) {
+        return { rejection: "resource_mismatch", boundTo: existing.resource };
+      }
+      if (existing.status !== "released") {
+        return { rejection: existing.status === "consumed" ? "already_used" : "in_use", boundTo: existing.resource };
+      }
+    }
+
+    const claim: PaymentClaim = {
+      keys: [...new Set([...(existing?.keys ?? []), ...keys])],
+      resource,
+      status: "in_use",
+      expiresAt: Math.max(expiresAt, existing?.expiresAt ?? 0),
+    };
+    for (const key of claim.keys) {
+      this.claims.set(key, claim);
+    }
+    return { claim };
+  }
+
+  // The payment settled: it can never be used again
+  consume(claim: PaymentClaim) {
+    claim.status = "consumed";
+  }
+
+  // The payment was verified but not settled: it stays bound to its
+  // resource and may be retried there
+  release(claim: PaymentClaim) {
+    if (claim.status === "in_use") {
+      claim.status = "released";
+    }
+  }
+
+  // The payment was rejected: keep nothing, so bogus proofs bind nothing
+  forget(claim: PaymentClaim) {
+    for (const key of claim.keys) {
+      if (this.claims.get(key) === claim) {
+        this.claims.delete(key);
+      }
+    }
+  }
+
+  get size(): number {
+    return new Set(this.claims.values()).size;
+  }
+
+  private sweep() {
+    const now = Date.now();
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) {
+      return;
+    }
+    this.lastSweep = now;
+    for (const [key, claim] of this.claims) {
+      // Payments being processed are kept until they finish
+      if (claim.expiresAt <= now && claim.status !== "in_use") {
+        this.claims.delete(key);
+      }
+    }
+  }
+}
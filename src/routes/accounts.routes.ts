@@ -0,0 +1,117 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { getAccountStore, getApiKey, type Account } from "../accounts/index.js";
+import { PAYMENT_CONFIG, formatAtomicAmount, isPaymentConfigured, parseTopUpAmount } from "../config/payment.config.js";
+import type { VerifiedPayment } from "../middleware/x402Payment.js";
+
+const router = Router();
+
+// Default and maximum number of usage entries returned by /usage
+const DEFAULT_USAGE_LIMIT = 50;
+const MAX_USAGE_LIMIT = 500;
+
+// Helper to resolve the caller's account from its API key into res.locals.account
+const requireAccount = (req: Request, res: Response, next: NextFunction) => {
+  const apiKey = getApiKey(req.headers);
+  if (!apiKey) {
+    return res.status(401).json({
+      error: "API_KEY_REQUIRED",
+      message: "Send the API key in the X-API-Key header or as a Bearer token",
+    });
+  }
+  const account = getAccountStore().findByApiKey(apiKey);
+  if (!account) {
+    return res.status(401).json({
+      error: "INVALID_API_KEY",
+      message: "Unknown API key",
+    });
+  }
+  res.locals.account = account;
+  next();
+};
+
+const describeBalance = (account: Account) => ({
+  accountId: account.id,
+  balance: formatAtomicAmount(account.balance),
+  balanceAtomic: account.balance,
+});
+
+// Top up an account with an x402 payment; opens a new account without an API key
+router.post("/topup", (req: Request, res: Response) => {
+  if (!isPaymentConfigured()) {
+    return res.status(503).json({
+      error: "Payment not configured",
+      message: "Top-ups are paid with x402; set FACILITATOR_URL and ADDRESS to enable them",
+    });
+  }
+
+  const price = parseTopUpAmount(req.body?.amount ?? req.query.amount);
+  if (!price) {
+    const { minTopUp, maxTopUp } = PAYMENT_CONFIG.credits;
+    return res.status(400).json({
+      error: "INVALID_AMOUNT",
+      message: `amount must be a USD amount between ${minTopUp} and ${maxTopUp}`,
+    });
+  }
+
+  // Set by the top-up payment middleware once the payment has settled
+  const payment = res.locals.payment as VerifiedPayment | undefined;
+  if (!payment?.transaction) {
+    return res.status(402).json({
+      error: "Payment required",
+      message: "Top-ups need a settled x402 payment",
+    });
+  }
+
+  const receiptId = res.locals.receiptId as string | undefined;
+  const store = getAccountStore();
+  const apiKey = getApiKey(req.headers);
+  const existing = apiKey ? store.findByApiKey(apiKey) : undefined;
+  const created = existing ? undefined : store.createAccount();
+  const account = store.credit(existing?.id ?? created!.account.id, {
+    amount: Number(payment.amount),
+    network: payment.network,
+    payer: payment.payer,
+    transaction: payment.transaction,
+    receiptId,
+  });
+
+  console.log(`💳 Top-up of ${price} for account ${account.id} (${payment.network})`);
+
+  res.status(created ? 201 : 200).json({
+    ...describeBalance(account),
+    credited: price,
+    transaction: payment.transaction,
+    receipt: receiptId,
+    // Only returned when the account is created; it cannot be recovered later
+    ...(created ? { apiKey: created.apiKey } : {}),
+  });
+});
+
+// Current balance
+router.get("/balance", requireAccount, (req: Request, res: Response) => {
+  res.json(describeBalance(res.locals.account as Account));
+});
+
+// Usage history, newest first, plus top-ups
+router.get("/usage", requireAccount, (req: Request, res: Response) => {
+  const account = res.locals.account as Account;
+  const requested = Number(req.query.limit ?? DEFAULT_USAGE_LIMIT);
+  const limit = Number.isInteger(requested) && requested > 0 ? Math.min(requested, MAX_USAGE_LIMIT) : DEFAULT_USAGE_LIMIT;
+
+  res.json({
+    ...describeBalance(account),
+    usage: account.usage
+      .slice(-limit)
+      .reverse()
+      .map((entry) => ({
+        ...entry,
+        amount: formatAtomicAmount(entry.amount),
+        ...(entry.refunded ? { refunded: formatAtomicAmount(entry.refunded) } : {}),
+      })),
+    topUps: [...account.topUps]
+      .reverse()
+      .map((topUp) => ({ ...topUp, amount: formatAtomicAmount(topUp.amount) })),
+  });
+});
+
+export default router;
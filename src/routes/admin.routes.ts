@@ -0,0 +1,111 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { createHash, timingSafeEqual } from "node:crypto";
+import { getLedger, ledgerToCsv, summarizeLedger, type LedgerFilter, type PaymentMethod } from "../ledger/index.js";
+
+const router = Router();
+
+const PAYMENT_METHODS: PaymentMethod[] = ["x402", "credits"];
+
+// Helper to compare keys without leaking their length or content through timing
+const sameKey = (given: string, expected: string): boolean => {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(given), digest(expected));
+};
+
+// Admin endpoints need ADMIN_API_KEY, sent as X-Admin-Key or a Bearer token
+const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    return res.status(503).json({
+      error: "Admin endpoints disabled",
+      message: "Set ADMIN_API_KEY to enable them",
+    });
+  }
+  const given = req.header("X-Admin-Key") ?? req.header("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!given || !sameKey(given, adminKey)) {
+    return res.status(401).json({
+      error: "Unauthorized",
+      message: "Invalid or missing admin key",
+    });
+  }
+  next();
+};
+
+// Helper to read ledger filters from the query string
+const parseLedgerFilter = (query: Request["query"]): LedgerFilter | string => {
+  const text = (name: string) => (typeof query[name] === "string" && query[name] ? (query[name] as string) : undefined);
+  const filter: LedgerFilter = {
+    tool: text("tool"),
+    network: text("network"),
+    payer: text("payer"),
+  };
+
+  const method = text("method");
+  if (method) {
+    if (!PAYMENT_METHODS.includes(method as PaymentMethod)) {
+      return `method must be one of: ${PAYMENT_METHODS.join(", ")}`;
+    }
+    filter.method = method as PaymentMethod;
+  }
+
+  for (const bound of ["from", "to"] as const) {
+    const value = text(bound);
+    if (value) {
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        return `${bound} must be a date or ISO timestamp`;
+      }
+      filter[bound] = date.toISOString();
+    }
+  }
+
+  const refundDue = text("refundDue");
+  if (refundDue) {
+    if (refundDue !== "true" && refundDue !== "false") {
+      return "refundDue must be true or false";
+    }
+    filter.refundDue = refundDue === "true";
+  }
+
+  const limit = text("limit");
+  if (limit) {
+    if (!/^\d+$/.test(limit) || Number(limit) < 1) {
+      return "limit must be a positive integer";
+    }
+    filter.limit = Number(limit);
+  }
+
+  return filter;
+};
+
+router.use(requireAdmin);
+
+// Ledger entries, newest first, as JSON or CSV (?format=csv)
+router.get("/ledger", async (req: Request, res: Response) => {
+  const filter = parseLedgerFilter(req.query);
+  if (typeof filter === "string") {
+    return res.status(400).json({ error: "Invalid filter", message: filter });
+  }
+
+  const entries = await getLedger().query(filter);
+
+  if (req.query.format === "csv") {
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="ledger-${new Date().toISOString().slice(0, 10)}.csv"`);
+    return res.send(ledgerToCsv(entries));
+  }
+
+  res.json({ count: entries.length, entries });
+});
+
+// Revenue totals per payment method, tool and network (same filters as /ledger)
+router.get("/ledger/summary", async (req: Request, res: Response) => {
+  const filter = parseLedgerFilter(req.query);
+  if (typeof filter === "string") {
+    return res.status(400).json({ error: "Invalid filter", message: filter });
+  }
+
+  res.json(summarizeLedger(await getLedger().query(filter)));
+});
+
+export default router;
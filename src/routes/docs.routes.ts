@@ -0,0 +1,18 @@
+import { Router, Request, Response } from "express";
+import { buildOpenApiDocument } from "../openapi/document.js";
+import { renderExplorerHtml } from "../openapi/explorer.js";
+
+const router = Router();
+
+// OpenAPI 3.1 document generated from the tool registry and route table
+router.get("/openapi.json", (req: Request, res: Response) => {
+  const baseUrl = `${req.protocol}://${req.get("host")}`;
+  res.json(buildOpenApiDocument(baseUrl));
+});
+
+// Interactive API explorer
+router.get("/docs", (req: Request, res: Response) => {
+  res.send(renderExplorerHtml("/openapi.json"));
+});
+
+export default router;
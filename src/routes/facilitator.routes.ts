@@ -0,0 +1,95 @@
+import { Router, Request, Response } from "express";
+import { PaymentPayloadSchema, PaymentRequirementsSchema } from "x402/types";
+import { formatAtomicAmount } from "../config/payment.config.js";
+import {
+  MOCK_WALLETS,
+  createMockPaymentHeader,
+  getMockFacilitator,
+  getMockWalletAccount,
+  isMockWalletName,
+  type MockWalletName,
+} from "../facilitator/index.js";
+
+const router = Router();
+
+// Helper to read the { paymentPayload, paymentRequirements } body the x402
+// facilitator API uses for /verify and /settle
+const parseFacilitatorRequest = (req: Request, res: Response) => {
+  const payload = PaymentPayloadSchema.safeParse(req.body?.paymentPayload);
+  const requirements = PaymentRequirementsSchema.safeParse(req.body?.paymentRequirements);
+  if (!payload.success || !requirements.success) {
+    res.status(400).json({
+      error: "Invalid request",
+      message: "Expected { x402Version, paymentPayload, paymentRequirements }",
+    });
+    return undefined;
+  }
+  return { payload: payload.data, requirements: requirements.data };
+};
+
+// Facilitator API: verify a payment without moving funds
+router.post("/verify", async (req: Request, res: Response) => {
+  const request = parseFacilitatorRequest(req, res);
+  if (request) {
+    res.json(await getMockFacilitator().verify(request.payload, request.requirements));
+  }
+});
+
+// Facilitator API: settle a payment (moves mock balances, burns the nonce)
+router.post("/settle", async (req: Request, res: Response) => {
+  const request = parseFacilitatorRequest(req, res);
+  if (request) {
+    res.json(await getMockFacilitator().settle(request.payload, request.requirements));
+  }
+});
+
+// Facilitator API: payment kinds this facilitator handles
+router.get("/supported", (req: Request, res: Response) => {
+  res.json(getMockFacilitator().supported());
+});
+
+// Test wallets and their mock USDC balances
+router.get("/wallets", (req: Request, res: Response) => {
+  res.json({
+    wallets: (Object.keys(MOCK_WALLETS) as MockWalletName[]).map((name) => {
+      const { address } = getMockWalletAccount(name);
+      return {
+        name,
+        address,
+        balance: formatAtomicAmount(Number(getMockFacilitator().getBalance(address))),
+      };
+    }),
+  });
+});
+
+// Sign an X-PAYMENT header for one entry of a 402 response's `accepts`.
+// wallet "empty" simulates insufficient funds, expired: true an expired
+// authorization; sending the same header twice simulates a replay.
+router.post("/sign", async (req: Request, res: Response) => {
+  const requirements = PaymentRequirementsSchema.safeParse(req.body?.paymentRequirements);
+  if (!requirements.success) {
+    return res.status(400).json({
+      error: "Invalid request",
+      message: "Expected { paymentRequirements, wallet?, expired? } with one entry of a 402 response's accepts",
+    });
+  }
+  const wallet = req.body.wallet ?? "funded";
+  if (!isMockWalletName(wallet)) {
+    return res.status(400).json({
+      error: "Unknown wallet",
+      message: `wallet must be one of: ${Object.keys(MOCK_WALLETS).join(", ")}`,
+    });
+  }
+
+  const paymentHeader = await createMockPaymentHeader(requirements.data, {
+    wallet,
+    expired: req.body.expired === true,
+  });
+  res.json({
+    wallet,
+    from: getMockWalletAccount(wallet).address,
+    paymentHeader,
+  });
+});
+
+export default router;
@@ -1,11 +1,14 @@
 import { Router, Request, Response } from "express";
-import { MCPServer } from "../server.js";
-import { isPaymentConfigured, PAYMENT_CONFIG } from "../config/payment.config.js";
+import { MCPServer, getResourceSummaries } from "../server.js";
+import { isPaymentConfigured, getPricingSummary } from "../config/payment.config.js";
+import { getPromptSummaries, getToolSummaries } from "../config/constants.js";
 
 const router = Router();
 
 // Root endpoint - Server info
 router.get("/", (req: Request, res: Response) => {
+  const mcpServer = new MCPServer();
+
   res.json({
     name: "FluidSDK MCP Server",
     version: "1.0.0",
@@ -14,42 +17,61 @@ router.get("/", (req: Request, res: Response) => {
     endpoints: {
       initialize: "POST /mcp/initialize",
       tools: {
-        list: "GET/POST /mcp/tools",
-        calculate: "GET/POST /mcp/calculate",
-        weather: "GET/POST /mcp/weather"
+        list: "GET /mcp/tools",
+        ...Object.fromEntries(
+          mcpServer.getToolRegistry().getAll().map((tool) => [tool.name, `GET/POST /mcp/${tool.metadata.restPath}`])
+        )
       },
       prompts: {
-        list: "GET/POST /mcp/prompts"
+        list: "GET /mcp/prompts"
       },
       resources: {
-        list: "GET/POST /mcp/resources"
+        list: "GET /mcp/resources"
       },
       jsonRpc: "POST /mcp",
+      streamableHttp: "POST/GET/DELETE /mcp",
+      sse: {
+        stream: "GET /mcp/sse",
+        messages: "POST /mcp/messages?sessionId=..."
+      },
+      accounts: {
+        topUp: "POST /accounts/topup",
+        balance: "GET /accounts/balance",
+        usage: "GET /accounts/usage"
+      },
+      receipts: "GET /receipts/:id",
       health: "GET /health",
-      info: "GET /info"
+      info: "GET /info",
+      openapi: "GET /openapi.json",
+      docs: "GET /docs"
     },
-    pricing: isPaymentConfigured() ? {
-      calculate: PAYMENT_CONFIG.tools.calculate.price,
-      weather: PAYMENT_CONFIG.tools.weather.price,
-      echo: PAYMENT_CONFIG.tools.echo.price,
-      timestamp: PAYMENT_CONFIG.tools.timestamp.price,
-      jsonRpc: PAYMENT_CONFIG.jsonRpc.price,
-      network: "base-sepolia"
-    } : null,
+    pricing: isPaymentConfigured() ? getPricingSummary() : null,
     examples: {
       calculate: {
         get: "/mcp/calculate?operation=add&a=10&b=5",
         post: { url: "/mcp/calculate", body: { operation: "add", a: 10, b: 5 } }
       },
+      evaluate: {
+        get: "/mcp/evaluate?expression=(a%2Bb)*c&variables={\"a\":1,\"b\":2,\"c\":3}",
+        post: { url: "/mcp/evaluate", body: { expression: "(a + b) * c", variables: { a: 1, b: 2, c: 3 }, steps: true } }
+      },
       weather: {
         get: "/mcp/weather?location=New York&unit=celsius",
         post: { url: "/mcp/weather", body: { location: "New York", unit: "celsius" } }
+      },
+      timestamp: {
+        get: "/mcp/timestamp?timezone=America/New_York&offset=%2B3 days",
+        post: { url: "/mcp/timestamp", body: { timezone: "Asia/Tokyo", locale: "ja-JP", pattern: "YYYY-MM-DD HH:mm z" } }
+      },
+      dateDiff: {
+        get: "/mcp/date-diff?start=2025-01-01&end=2025-03-10T09:30",
+        post: { url: "/mcp/date-diff", body: { start: "2025-12-25", timezone: "Europe/Paris" } }
       }
     },
     capabilities: {
-      tools: ["calculate", "get_weather", "echo", "get_timestamp"],
-      prompts: ["greeting", "code_review", "debug_assistant"],
-      resources: ["config", "status", "docs/api", "docs/quickstart"],
+      tools: Object.keys(getToolSummaries()),
+      prompts: Object.keys(getPromptSummaries()),
+      resources: Object.keys(getResourceSummaries()),
     },
   });
 });
@@ -71,35 +93,13 @@ router.get("/info", (req: Request, res: Response) => {
     protocol: "Model Context Protocol",
     description: "MCP server providing tools, prompts, and resources for FluidSDK agents",
     paymentEnabled: isPaymentConfigured(),
-    paymentNetwork: isPaymentConfigured() ? "base-sepolia" : null,
+    paymentNetworks: isPaymentConfigured() ? getPricingSummary().networks : null,
     capabilities: {
-      tools: {
-        calculate: "Perform mathematical calculations",
-        get_weather: "Get weather information",
-        echo: "Echo messages",
-        get_timestamp: "Get current timestamp",
-      },
-      prompts: {
-        greeting: "Generate greetings",
-        code_review: "Code review templates",
-        debug_assistant: "Debugging assistance",
-      },
-      resources: {
-        config: "Server configuration",
-        status: "Server status",
-        "docs/api": "API documentation",
-        "docs/quickstart": "Quick start guide",
-      },
+      tools: getToolSummaries(),
+      prompts: getPromptSummaries(),
+      resources: getResourceSummaries(),
     },
-    pricing: isPaymentConfigured() ? {
-      tools: {
-        calculate: PAYMENT_CONFIG.tools.calculate.price,
-        weather: PAYMENT_CONFIG.tools.weather.price,
-        echo: PAYMENT_CONFIG.tools.echo.price,
-        timestamp: PAYMENT_CONFIG.tools.timestamp.price,
-      },
-      jsonRpc: PAYMENT_CONFIG.jsonRpc.price,
-    } : null,
+    pricing: isPaymentConfigured() ? getPricingSummary() : null,
     documentation: "https://docs.fluidsdk.io",
   });
 });
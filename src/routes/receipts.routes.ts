@@ -0,0 +1,18 @@
+import { Router, Request, Response } from "express";
+import { getLedger } from "../ledger/index.js";
+
+const router = Router();
+
+// Look up a payment receipt by the id sent in the X-Payment-Receipt header
+router.get("/:id", async (req: Request, res: Response) => {
+  const receipt = await getLedger().get(req.params.id);
+  if (!receipt) {
+    return res.status(404).json({
+      error: "Receipt not found",
+      message: `No payment recorded with id ${req.params.id}`,
+    });
+  }
+  res.json(receipt);
+});
+
+export default router;
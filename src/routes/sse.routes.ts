@@ -0,0 +1,87 @@
+import { Router, Request, Response } from "express";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { MCPServer } from "../server.js";
+
+const router = Router();
+
+// Path clients POST messages to, as advertised in the SSE "endpoint" event
+const MESSAGES_PATH = "/mcp/messages";
+
+// Active SSE sessions keyed by sessionId
+const transports = new Map<string, SSEServerTransport>();
+
+// MCP SSE endpoint - opens the event stream for a new session
+const openSseStream = async (req: Request, res: Response) => {
+  console.log("📨 MCP SSE connection request received");
+
+  try {
+    // One server instance per session: an MCP Server binds to a single transport
+    const mcpServer = new MCPServer();
+    const server = mcpServer.getServer();
+
+    const transport = new SSEServerTransport(MESSAGES_PATH, res);
+    const { sessionId } = transport;
+    transports.set(sessionId, transport);
+
+    transport.onclose = () => {
+      transports.delete(sessionId);
+    };
+
+    res.on("close", () => {
+      console.log(`🔌 MCP SSE connection closed (session ${sessionId})`);
+      transports.delete(sessionId);
+      server.close().catch((error) => {
+        console.error("❌ Error closing MCP SSE session:", error);
+      });
+    });
+
+    await server.connect(transport);
+    console.log(`✅ MCP server connected via SSE (session ${sessionId})`);
+  } catch (error) {
+    console.error("❌ Error setting up MCP SSE connection:", error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        error: "Failed to establish MCP SSE connection",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+};
+
+router.get("/sse", openSseStream);
+// Kept for clients that used the original POST form
+router.post("/sse", openSseStream);
+
+// MCP SSE messages endpoint - routes client messages to their session
+router.post("/messages", async (req: Request, res: Response) => {
+  const sessionId = req.query.sessionId;
+
+  if (typeof sessionId !== "string" || !sessionId) {
+    return res.status(400).json({
+      error: "Missing sessionId query parameter",
+    });
+  }
+
+  const transport = transports.get(sessionId);
+  if (!transport) {
+    return res.status(404).json({
+      error: "Session not found",
+      sessionId,
+    });
+  }
+
+  try {
+    // express.json() has already consumed the stream, so pass the parsed body
+    await transport.handlePostMessage(req, res, req.body);
+  } catch (error) {
+    console.error("❌ Error handling MCP SSE message:", error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        error: "Failed to handle MCP SSE message",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+});
+
+export default router;
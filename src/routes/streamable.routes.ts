@@ -0,0 +1,114 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { randomUUID } from "node:crypto";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { MCPServer } from "../server.js";
+import { isStreamableJsonResponse } from "../config/constants.js";
+
+const router = Router();
+
+// Active Streamable HTTP sessions keyed by Mcp-Session-Id
+const transports = new Map<string, StreamableHTTPServerTransport>();
+
+const getSessionId = (req: Request): string | undefined => {
+  return req.header("mcp-session-id") || undefined;
+};
+
+// Streamable HTTP clients either carry a session or accept an SSE answer;
+// plain JSON-RPC clients do neither and fall through to the legacy handler
+const isStreamableRequest = (req: Request): boolean => {
+  return !!getSessionId(req) || (req.header("accept") || "").includes("text/event-stream");
+};
+
+const sendJsonRpcError = (res: Response, status: number, code: number, message: string) => {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code, message },
+    id: null,
+  });
+};
+
+const createSessionTransport = async (): Promise<StreamableHTTPServerTransport> => {
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    enableJsonResponse: isStreamableJsonResponse(),
+    onsessioninitialized: (sessionId) => {
+      console.log(`✅ MCP Streamable HTTP session initialized (${sessionId})`);
+      transports.set(sessionId, transport);
+    },
+  });
+
+  transport.onclose = () => {
+    if (transport.sessionId) {
+      console.log(`🔌 MCP Streamable HTTP session closed (${transport.sessionId})`);
+      transports.delete(transport.sessionId);
+    }
+  };
+
+  // One server instance per session: an MCP Server binds to a single transport
+  const mcpServer = new MCPServer();
+  await mcpServer.getServer().connect(transport);
+  return transport;
+};
+
+// POST /mcp - client-to-server messages (initialize opens a new session)
+router.post("/", async (req: Request, res: Response, next: NextFunction) => {
+  if (!isStreamableRequest(req)) {
+    return next();
+  }
+
+  console.log("📨 MCP Streamable HTTP request received");
+
+  try {
+    const sessionId = getSessionId(req);
+    let transport: StreamableHTTPServerTransport | undefined;
+
+    if (sessionId) {
+      transport = transports.get(sessionId);
+      if (!transport) {
+        return sendJsonRpcError(res, 404, -32001, "Session not found");
+      }
+    } else if (isInitializeRequest(req.body)) {
+      transport = await createSessionTransport();
+    } else {
+      return sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+    }
+
+    // express.json() has already consumed the stream, so pass the parsed body
+    await transport.handleRequest(req, res, req.body);
+  } catch (error) {
+    console.error("❌ Error handling MCP Streamable HTTP request:", error);
+    if (!res.headersSent) {
+      sendJsonRpcError(res, 500, -32603, "Internal error");
+    }
+  }
+});
+
+// GET /mcp - server-to-client SSE stream, DELETE /mcp - terminate session
+const handleSessionRequest = async (req: Request, res: Response) => {
+  const sessionId = getSessionId(req);
+  const transport = sessionId ? transports.get(sessionId) : undefined;
+
+  if (!transport) {
+    return sendJsonRpcError(
+      res,
+      sessionId ? 404 : 400,
+      sessionId ? -32001 : -32000,
+      sessionId ? "Session not found" : "Bad Request: Mcp-Session-Id header is required"
+    );
+  }
+
+  try {
+    await transport.handleRequest(req, res);
+  } catch (error) {
+    console.error("❌ Error handling MCP Streamable HTTP session request:", error);
+    if (!res.headersSent) {
+      sendJsonRpcError(res, 500, -32603, "Internal error");
+    }
+  }
+};
+
+router.get("/", handleSessionRequest);
+router.delete("/", handleSessionRequest);
+
+export default router;
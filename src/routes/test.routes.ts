@@ -1,143 +1,337 @@
 import { Router, Request, Response } from "express";
-import { PAYMENT_CONFIG } from "../config/payment.config.js";
+import { exact } from "x402/schemes";
+import { decodeXPaymentResponse, findMatchingPaymentRequirements } from "x402/shared";
+import { PaymentRequirementsSchema, SupportedEVMNetworks, type PaymentPayload, type PaymentRequirements } from "x402/types";
+import { useFacilitator } from "x402/verify";
+import {
+  PAYMENT_CONFIG,
+  getFacilitatorUrl,
+  getPaymentOptions,
+  getToolPrice,
+  isMockFacilitatorActive,
+  isMockFacilitatorEnabled,
+  isPaymentConfigured,
+} from "../config/payment.config.js";
+import { MOCK_WALLETS, createMockPaymentHeader, isMockWalletName } from "../facilitator/index.js";
+import { createPaymentRequirement } from "../middleware/x402Payment.js";
+import { createToolRegistry, type ToolDefinition } from "../tools/index.js";
 
 const router = Router();
 
-// Test endpoint to simulate x402 payment flow
-router.get("/test/payment-flow", (req: Request, res: Response) => {
+// Example arguments for the sandbox, per tool
+const EXAMPLE_ARGUMENTS: Record<string, Record<string, unknown>> = {
+  calculate: { operation: "add", a: 10, b: 5 },
+  evaluate: { expression: "(a + b) * c", variables: { a: 1, b: 2, c: 3 } },
+  get_weather: { location: "New York", unit: "celsius" },
+  echo: { message: "Hello, x402!" },
+  get_timestamp: { format: "iso", timezone: "America/New_York", offset: "+3 days" },
+  date_diff: { start: "2025-01-01", end: "2025-03-10T09:30" },
+};
+
+// Helper to find a tool by its name or REST path ("get_weather" or "weather")
+const findTool = (tool: string): ToolDefinition | undefined => {
+  return createToolRegistry()
+    .getAll()
+    .find((definition) => definition.name === tool || definition.metadata.restPath === tool);
+};
+
+// Helper to build the `accepts` list a tool's REST endpoint answers a 402
+// with, from the live pricing catalog
+const getToolRequirements = (req: Request, tool: ToolDefinition, method: string = "POST"): PaymentRequirements[] => {
+  const pricing = getToolPrice(tool.name);
+  if (!pricing) {
+    return [];
+  }
+  const path = `/mcp/${tool.metadata.restPath}`;
+  return getPaymentOptions(pricing).map((option) =>
+    createPaymentRequirement(option, { pricing, description: `${method} ${path}` }, `${req.protocol}://${req.get("host")}${path}`, method)
+  );
+};
+
+// Helper to call a tool's REST endpoint on this server the way an outside
+// client would, so the real payment middleware handles it
+const callTool = async (tool: ToolDefinition, args: unknown, paymentHeader?: string) => {
+  const response = await fetch(`http://localhost:${process.env.PORT || 3000}/mcp/${tool.metadata.restPath}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(paymentHeader ? { "X-PAYMENT": paymentHeader } : {}),
+    },
+    body: JSON.stringify(args ?? {}),
+  });
+  const paymentResponse = response.headers.get("X-PAYMENT-RESPONSE");
+  const text = await response.text();
+  let body: unknown = text;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Not JSON; return the text as is
+  }
+  return {
+    status: response.status,
+    body,
+    paymentResponse: paymentResponse ? decodeXPaymentResponse(paymentResponse) : undefined,
+    receipt: response.headers.get("X-Payment-Receipt") ?? undefined,
+    freeCallsRemaining: response.headers.get("X-Free-Calls-Remaining") ?? undefined,
+  };
+};
+
+// Helper to reject tools that are unknown or free with a 404
+const requirePaidTool = (res: Response, tool: unknown): ToolDefinition | undefined => {
+  const definition = typeof tool === "string" ? findTool(tool) : undefined;
+  if (!definition || !getToolPrice(definition.name)) {
+    res.status(404).json({
+      error: "Tool not found",
+      message: "tool must name a priced tool",
+      availableTools: Object.keys(PAYMENT_CONFIG.tools),
+    });
+    return undefined;
+  }
+  return definition;
+};
+
+// Payment flow walkthrough, with the 402 response the calculate tool really sends
+router.get("/payment-flow", (req: Request, res: Response) => {
+  const calculate = findTool("calculate")!;
+
   res.json({
     message: "X402 Payment Flow Test",
+    paymentConfigured: isPaymentConfigured(),
+    mockFacilitator: isMockFacilitatorEnabled(),
     instructions: {
       step1: "Make a request to a protected endpoint without payment",
-      step2: "Receive x402 error response with payment details",
-      step3: "Create payment transaction on blockchain",
-      step4: "Include X-PAYMENT header in retry request",
-      step5: "Receive successful response"
+      step2: "Receive a 402 response listing the accepted payments (one per network)",
+      step3: "Sign a payment for one entry of `accepts` (POST /facilitator/sign with the mock facilitator)",
+      step4: "Include the signed payment in the X-PAYMENT header of a retry",
+      step5: "Receive the result, an X-PAYMENT-RESPONSE header and an X-Payment-Receipt id"
     },
     example: {
-      protectedEndpoint: "GET http://localhost:3000/mcp/calculate?operation=add&a=10&b=5",
+      protectedEndpoint: `POST /mcp/${calculate.metadata.restPath}`,
+      body: EXAMPLE_ARGUMENTS.calculate,
       expectedError: {
         x402Version: 1,
         error: "X-PAYMENT header is required",
-        accepts: [
-          {
-            scheme: "exact",
-            network: "base-sepolia",
-            maxAmountRequired: "1000",
-            resource: "http://localhost:3000/mcp/calculate",
-            payTo: process.env.ADDRESS || "0xYourWalletAddress",
-            asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
-            extra: {
-              name: "USDC",
-              version: "2"
-            }
-          }
-        ]
+        // Empty until a payTo address is configured
+        accepts: getToolRequirements(req, calculate)
       },
       paymentHeader: {
         description: "Include this header after payment",
         header: "X-PAYMENT",
-        value: "base64-encoded-payment-proof"
-      }
-    },
-    testEndpoints: {
-      calculate: {
-        url: "GET /mcp/calculate?operation=add&a=10&b=5",
-        price: PAYMENT_CONFIG.tools.calculate.price,
-        network: PAYMENT_CONFIG.tools.calculate.network
+        value: "base64-encoded-payment-payload"
       },
-      weather: {
-        url: "GET /mcp/weather?location=NewYork&unit=celsius",
-        price: PAYMENT_CONFIG.tools.weather.price,
-        network: PAYMENT_CONFIG.tools.weather.network
-      }
-    }
+      // Runs steps 1-5 against the mock facilitator
+      sandbox: `POST /test/pay-and-retry {"tool": "calculate"}`
+    },
+    testEndpoints: Object.fromEntries(
+      createToolRegistry()
+        .getAll()
+        .flatMap((tool) => {
+          const pricing = getToolPrice(tool.name);
+          return pricing ? [[tool.name, {
+            url: `POST /mcp/${tool.metadata.restPath}`,
+            body: EXAMPLE_ARGUMENTS[tool.name] ?? {},
+            price: pricing.price,
+            networks: getPaymentOptions(pricing).map(({ network }) => network)
+          }]] : [];
+        })
+    )
   });
 });
 
-// Test endpoint - Mock payment verification
-router.post("/test/verify-payment", (req: Request, res: Response) => {
-  const { paymentProof, endpoint, amount } = req.body;
+// Check an X-PAYMENT header against a tool's price with the facilitator,
+// without settling it (no funds move)
+router.post("/verify-payment", async (req: Request, res: Response) => {
+  const { tool, paymentHeader } = req.body ?? {};
 
-  if (!paymentProof || !endpoint || !amount) {
+  if (!tool || !paymentHeader) {
     return res.status(400).json({
       error: "Missing required fields",
-      required: ["paymentProof", "endpoint", "amount"]
+      required: ["tool", "paymentHeader"]
     });
   }
 
-  // Mock verification
-  res.json({
-    verified: true,
-    paymentProof,
-    endpoint,
-    amount,
-    message: "Payment verified (mock)",
-    nextStep: "Include X-PAYMENT header in your request",
-    example: {
-      header: "X-PAYMENT",
-      value: paymentProof
-    }
+  const facilitatorUrl = getFacilitatorUrl();
+  if (!facilitatorUrl) {
+    return res.status(503).json({
+      error: "Payment not configured",
+      message: "Set FACILITATOR_URL, or MOCK_FACILITATOR=true to use the local facilitator"
+    });
+  }
+
+  const definition = requirePaidTool(res, tool);
+  if (!definition) {
+    return;
+  }
+
+  let payment: PaymentPayload;
+  try {
+    payment = exact.evm.decodePayment(paymentHeader);
+  } catch {
+    return res.status(400).json({
+      error: "Invalid payment header",
+      message: "paymentHeader must be a base64-encoded x402 payment payload"
+    });
+  }
+
+  const requirements = findMatchingPaymentRequirements(getToolRequirements(req, definition), payment);
+  if (!requirements) {
+    return res.status(400).json({
+      error: "No matching payment requirements",
+      message: `${definition.name} is not payable with ${payment.scheme} on ${payment.network}`
+    });
+  }
+
+  try {
+    const verification = await useFacilitator({ url: facilitatorUrl }).verify(payment, requirements);
+    res.json({
+      tool: definition.name,
+      verified: verification.isValid,
+      ...(verification.invalidReason ? { invalidReason: verification.invalidReason } : {}),
+      payer: verification.payer,
+      network: requirements.network,
+      amount: requirements.maxAmountRequired,
+      message: verification.isValid
+        ? "Payment is valid; send it in the X-PAYMENT header to pay"
+        : "Payment would be rejected"
+    });
+  } catch (error) {
+    res.status(502).json({
+      error: "Facilitator error",
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+// Call a tool like a client would, with the X-PAYMENT header if one is sent;
+// answers with the 402 or the paid result as the tool endpoint returned it
+router.post("/protected-call", async (req: Request, res: Response) => {
+  const { tool, arguments: args } = req.body ?? {};
+  const definition = requirePaidTool(res, tool);
+  if (!definition) {
+    return;
+  }
+
+  const result = await callTool(definition, args ?? EXAMPLE_ARGUMENTS[definition.name], req.header("X-PAYMENT"));
+  res.status(result.status).json({
+    tool: definition.name,
+    endpoint: `POST /mcp/${definition.metadata.restPath}`,
+    ...result
   });
 });
 
-// Test endpoint - Simulate protected call
-router.post("/test/protected-call", (req: Request, res: Response) => {
-  const paymentHeader = req.headers['x-payment'];
-  const { endpoint, params } = req.body;
+// Full pay-and-retry cycle against the mock facilitator: call without
+// payment, sign one of the 402's `accepts` with a test wallet, retry.
+// wallet "empty" and expired: true walk through the failure paths. Only runs
+// when the mock facilitator is the one in use, so nothing is sent to a real
+// facilitator.
+router.post("/pay-and-retry", async (req: Request, res: Response) => {
+  if (!isMockFacilitatorActive() || !isPaymentConfigured()) {
+    return res.status(503).json({
+      error: "Sandbox unavailable",
+      message: "Set MOCK_FACILITATOR=true and ADDRESS (without FACILITATOR_URL) to pay with test wallets"
+    });
+  }
 
-  if (!paymentHeader) {
-    return res.status(402).json({
-      x402Version: 1,
-      error: "X-PAYMENT header is required",
-      accepts: [
-        {
-          scheme: "exact",
-          network: "base-sepolia",
-          maxAmountRequired: "1000",
-          resource: `http://localhost:3000${endpoint}`,
-          description: "Payment required for this resource",
-          payTo: process.env.ADDRESS || "0x38C867005D271Eb8Ea68F262ac64F1Bf336Ee2cf",
-          maxTimeoutSeconds: 60,
-          asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
-          outputSchema: {
-            input: {
-              type: "http",
-              method: "GET",
-              discoverable: true
-            }
-          },
-          extra: {
-            name: "USDC",
-            version: "2"
-          }
-        }
-      ]
+  const { tool = "calculate", arguments: args, wallet = "funded", expired = false } = req.body ?? {};
+  const definition = requirePaidTool(res, tool);
+  if (!definition) {
+    return;
+  }
+  if (!isMockWalletName(wallet)) {
+    return res.status(400).json({
+      error: "Unknown wallet",
+      message: `wallet must be one of: ${Object.keys(MOCK_WALLETS).join(", ")}`
     });
   }
 
-  // Mock successful response
-  res.json({
-    success: true,
-    paymentVerified: true,
-    endpoint,
-    params,
-    result: {
-      message: "Payment accepted - request processed",
-      data: {
-        example: "This would be the actual API response"
-      }
+  const toolArguments = args ?? EXAMPLE_ARGUMENTS[definition.name] ?? {};
+  const endpoint = `POST /mcp/${definition.metadata.restPath}`;
+
+  try {
+    const unpaid = await callTool(definition, toolArguments);
+    // With FREE_CALLS_PER_DAY set the unpaid call can be a free one; nothing
+    // to pay until the allowance is used up
+    if (unpaid.status < 400 && unpaid.freeCallsRemaining !== undefined) {
+      return res.json({
+        tool: definition.name,
+        wallet,
+        paid: false,
+        free: true,
+        message: `The call used the free tier (${unpaid.freeCallsRemaining} free calls left today); ` +
+          "run the sandbox again once they are used up to pay",
+        steps: [
+          {
+            step: 1,
+            action: `${endpoint} without payment`,
+            status: unpaid.status,
+            response: unpaid.body
+          }
+        ]
+      });
     }
-  });
+
+    const accepts = PaymentRequirementsSchema.array().safeParse((unpaid.body as { accepts?: unknown })?.accepts);
+    // The mock facilitator signs and settles EVM payments
+    const requirements = accepts.success
+      ? accepts.data.find((requirement) => SupportedEVMNetworks.includes(requirement.network))
+      : undefined;
+    if (unpaid.status !== 402 || !requirements) {
+      return res.status(502).json({
+        error: "Unexpected response",
+        message: `Expected a 402 with an EVM payment option from ${endpoint}`,
+        response: unpaid
+      });
+    }
+
+    const paymentHeader = await createMockPaymentHeader(requirements, { wallet, expired: expired === true });
+    const paid = await callTool(definition, toolArguments, paymentHeader);
+
+    console.log(`🧪 Sandbox payment for ${definition.name} with the ${wallet} wallet: ${paid.status}`);
+
+    res.json({
+      tool: definition.name,
+      wallet,
+      paid: paid.status < 400 && paid.paymentResponse?.success === true,
+      // The signing wallet can have free calls of its own left
+      free: paid.status < 400 && !paid.paymentResponse && paid.freeCallsRemaining !== undefined,
+      steps: [
+        {
+          step: 1,
+          action: `${endpoint} without payment`,
+          status: unpaid.status,
+          response: unpaid.body
+        },
+        {
+          step: 2,
+          action: `Sign a ${requirements.network} payment with the ${wallet} test wallet`,
+          paymentRequirements: requirements,
+          paymentHeader
+        },
+        {
+          step: 3,
+          action: `${endpoint} with the X-PAYMENT header`,
+          ...paid
+        }
+      ],
+      // Sending the same header again is rejected as a replay
+      replay: `POST /test/protected-call {"tool": "${definition.name}"} with X-PAYMENT: <steps[1].paymentHeader>`
+    });
+  } catch (error) {
+    res.status(502).json({
+      error: "Sandbox request failed",
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
 });
 
 // Test endpoint - Get payment requirements
-router.get("/test/payment-info/:tool", (req: Request, res: Response) => {
+router.get("/payment-info/:tool", (req: Request, res: Response) => {
   const { tool } = req.params;
   
-  const toolConfig = PAYMENT_CONFIG.tools[tool as keyof typeof PAYMENT_CONFIG.tools];
+  const toolDefinition = findTool(tool);
+  const toolConfig = toolDefinition && getToolPrice(toolDefinition.name);
   
-  if (!toolConfig) {
+  if (!toolDefinition || !toolConfig) {
     return res.status(404).json({
       error: "Tool not found",
       availableTools: Object.keys(PAYMENT_CONFIG.tools)
@@ -147,25 +341,27 @@ router.get("/test/payment-info/:tool", (req: Request, res: Response) => {
   res.json({
     tool,
     price: toolConfig.price,
-    network: toolConfig.network,
-    paymentDetails: {
+    // One entry per network the tool can be paid on (empty until a payTo address is configured)
+    paymentOptions: getPaymentOptions(toolConfig).map((option) => ({
       x402Version: 1,
       scheme: "exact",
-      network: toolConfig.network,
-      payTo: process.env.ADDRESS || "0x38C867005D271Eb8Ea68F262ac64F1Bf336Ee2cf",
-      asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      network: option.network,
+      chainId: option.chainId,
+      payTo: option.payTo,
+      asset: option.asset.address,
       assetDetails: {
-        name: "USDC",
-        version: "2",
-        decimals: 6
+        name: option.asset.symbol,
+        decimals: option.asset.decimals
       },
       priceInUSDC: toolConfig.price,
       maxTimeoutSeconds: 60
-    },
+    })),
+    // The `accepts` list of the endpoint's 402 response
+    accepts: getToolRequirements(req, toolDefinition),
     howToUse: {
-      step1: `Make request to /mcp/${tool}`,
+      step1: `Make request to /mcp/${toolDefinition.metadata.restPath}`,
       step2: "Receive 402 error with payment details",
-      step3: "Create payment transaction",
+      step3: "Sign a payment for one entry of accepts",
       step4: "Include X-PAYMENT header",
       step5: "Retry request - success!"
     }
@@ -173,7 +369,7 @@ router.get("/test/payment-info/:tool", (req: Request, res: Response) => {
 });
 
 // Interactive test page
-router.get("/test/interactive", (req: Request, res: Response) => {
+router.get("/interactive", (req: Request, res: Response) => {
   const html = `
 <!DOCTYPE html>
 <html>
@@ -263,22 +459,21 @@ router.get("/test/interactive", (req: Request, res: Response) => {
         <h1>🔐 X402 Payment Test Interface</h1>
         <p>Interactive testing for Coinbase x402 payment-protected endpoints</p>
         
-        <div class="status ${process.env.ADDRESS ? 'enabled' : 'disabled'}">
-            Payment Status: ${process.env.ADDRESS ? '✅ ENABLED' : '❌ DISABLED (Configure .env)'}
+        <div class="status ${isPaymentConfigured() ? 'enabled' : 'disabled'}">
+            Payment Status: ${isPaymentConfigured() ? '✅ ENABLED' : '❌ DISABLED (Configure .env)'}
         </div>
 
         <div class="test-section">
             <h2>📊 Payment Configuration</h2>
-            <p><strong>Network:</strong> base-sepolia</p>
-            <p><strong>Payment Address:</strong> <code>${process.env.ADDRESS || 'Not configured'}</code></p>
-            <p><strong>USDC Token:</strong> <code>0x036CbD53842c5426634e7929541eC2318f3dCF7e</code></p>
+            ${getPaymentOptions().map((option) => `
+            <p><strong>Network:</strong> ${option.network}<br>
+            <strong>Payment Address:</strong> <code>${option.payTo}</code><br>
+            <strong>${option.asset.symbol} Token:</strong> <code>${option.asset.address}</code></p>`).join('') || '<p><strong>Payment Address:</strong> Not configured</p>'}
             
             <h3>Pricing:</h3>
             <ul>
-                <li>Calculate: <span class="price">${PAYMENT_CONFIG.tools.calculate.price}</span></li>
-                <li>Weather: <span class="price">${PAYMENT_CONFIG.tools.weather.price}</span></li>
-                <li>Echo: <span class="price">${PAYMENT_CONFIG.tools.echo.price}</span></li>
-                <li>Timestamp: <span class="price">${PAYMENT_CONFIG.tools.timestamp.price}</span></li>
+                ${Object.entries(PAYMENT_CONFIG.tools).map(([toolName, { price }]) => `
+                <li>${toolName}: <span class="price">${price}</span></li>`).join("")}
             </ul>
         </div>
 
@@ -302,6 +497,18 @@ router.get("/test/interactive", (req: Request, res: Response) => {
             <div id="weather-result"></div>
         </div>
 
+        <div class="test-section">
+            <h2>💸 Pay &amp; Retry Sandbox</h2>
+            <p>Runs the whole x402 cycle against the mock facilitator (<code>MOCK_FACILITATOR=true</code>): call, receive 402, sign with a test wallet, retry.</p>
+            <div class="status ${isMockFacilitatorEnabled() && isPaymentConfigured() ? 'enabled' : 'disabled'}">
+                Mock Facilitator: ${isMockFacilitatorEnabled() ? (isPaymentConfigured() ? '✅ ENABLED' : '❌ NO PAYMENT ADDRESS (set ADDRESS)') : '❌ DISABLED (set MOCK_FACILITATOR=true)'}
+            </div>
+            <button onclick="payAndRetry('funded', false)">Pay with Funded Wallet</button>
+            <button class="secondary" onclick="payAndRetry('empty', false)">Pay with Empty Wallet</button>
+            <button class="secondary" onclick="payAndRetry('funded', true)">Send Expired Payment</button>
+            <div id="sandbox-result"></div>
+        </div>
+
         <div class="test-section">
             <h2>📖 X402 Flow Example</h2>
             <pre>
@@ -309,25 +516,21 @@ Step 1: Client makes request without payment
 → GET /mcp/calculate?operation=add&a=10&b=5
 
 Step 2: Server responds with 402 Payment Required
-→ {
-    "x402Version": 1,
-    "error": "X-PAYMENT header is required",
-    "accepts": [{
-        "network": "base-sepolia",
-        "payTo": "${process.env.ADDRESS || '0x...'}",
-        "asset": "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
-        "maxAmountRequired": "1000"
-    }]
-}
-
-Step 3: Client creates payment transaction
+→ ${JSON.stringify({
+    x402Version: 1,
+    error: "X-PAYMENT header is required",
+    accepts: getToolRequirements(req, findTool("calculate")!, "GET")
+}, null, 2)}
+
+Step 3: Client signs a payment for one entry of accepts
 
 Step 4: Client retries with X-PAYMENT header
 → GET /mcp/calculate?operation=add&a=10&b=5
 → Header: X-PAYMENT: <payment-proof>
 
-Step 5: Server verifies and responds
+Step 5: Server verifies, runs the tool, settles and responds
 → { "result": ... }
+→ Headers: X-PAYMENT-RESPONSE, X-Payment-Receipt
             </pre>
         </div>
 
@@ -336,8 +539,9 @@ Step 5: Server verifies and responds
             <ul>
                 <li><code>GET /test/payment-flow</code> - Payment flow documentation</li>
                 <li><code>GET /test/payment-info/:tool</code> - Get payment details for tool</li>
-                <li><code>POST /test/verify-payment</code> - Mock payment verification</li>
-                <li><code>POST /test/protected-call</code> - Simulate protected call</li>
+                <li><code>POST /test/verify-payment</code> - Verify an X-PAYMENT header with the facilitator (no funds move)</li>
+                <li><code>POST /test/protected-call</code> - Call a tool, paying with the X-PAYMENT header if sent</li>
+                <li><code>POST /test/pay-and-retry</code> - Full pay-and-retry cycle with a mock facilitator test wallet</li>
             </ul>
         </div>
     </div>
@@ -399,6 +603,29 @@ Step 5: Server verifies and responds
             }
         }
 
+        async function payAndRetry(wallet, expired) {
+            const resultDiv = document.getElementById('sandbox-result');
+            resultDiv.innerHTML = '<p>Paying...</p>';
+            
+            try {
+                const response = await fetch('/test/pay-and-retry', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ tool: 'calculate', wallet, expired })
+                });
+                const data = await response.json();
+                
+                resultDiv.innerHTML = \`
+                    <div class="\${data.paid ? 'success-response' : 'error-response'}">
+                        <h4>\${data.paid ? 'Paid!' : 'Not paid'}</h4>
+                        <pre>\${JSON.stringify(data, null, 2)}</pre>
+                    </div>
+                \`;
+            } catch (error) {
+                resultDiv.innerHTML = \`<div class="error-response">Error: \${error.message}</div>\`;
+            }
+        }
+
         async function getPaymentInfo(tool) {
             const resultDiv = document.getElementById(tool + '-result');
             resultDiv.innerHTML = '<p>Loading payment info...</p>';
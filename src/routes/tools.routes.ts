@@ -1,145 +1,133 @@
 import { Router, Request, Response } from "express";
 import { MCPServer } from "../server.js";
+import { ToolValidationError } from "../tools/index.js";
+import type { JsonSchemaProperty, ToolDefinition, ToolErrorCode, ToolInputSchema, ToolResult } from "../tools/index.js";
 
 const router = Router();
+const mcpServer = new MCPServer();
 
-// Calculate Tool - GET and POST
-router.get("/calculate", async (req: Request, res: Response) => {
-  console.log("🔧 GET /mcp/calculate");
-  const { operation, a, b } = req.query;
-  
-  if (!operation || !a || !b) {
-    return res.status(400).json({
-      error: "Missing parameters",
-      required: ["operation", "a", "b"],
-      example: "/mcp/calculate?operation=add&a=10&b=5"
+// HTTP status for each tool error code
+const TOOL_ERROR_STATUS: Record<ToolErrorCode, number> = {
+  UNKNOWN_TOOL: 404,
+  UNKNOWN_OPERATION: 400,
+  DIVISION_BY_ZERO: 422,
+  INVALID_EXPRESSION: 400,
+  MATH_DOMAIN_ERROR: 422,
+  INVALID_DATE: 400,
+  INVALID_TIMEZONE: 400,
+  INVALID_LOCALE: 400,
+  INVALID_OFFSET: 400,
+  INVALID_LOCATION: 400,
+  LOCATION_NOT_FOUND: 404,
+  WEATHER_UNAVAILABLE: 503,
+  TOOL_EXECUTION_FAILED: 500,
+};
+
+// Send a tool result in the REST envelope: isError results become an HTTP
+// error with the tool's error code, successes are unwrapped from MCP format
+const sendToolResult = (res: Response, mcpResult: ToolResult) => {
+  const error = mcpResult.structuredContent?.error;
+  if (mcpResult.isError) {
+    return res.status(error ? TOOL_ERROR_STATUS[error.code] : 400).json({
+      success: false,
+      error: error?.code ?? "TOOL_ERROR",
+      message: error?.message ?? mcpResult.content[0]?.text,
     });
   }
 
-  const mcpServer = new MCPServer();
-  
+  // Extract the actual result from MCP format (not every tool returns JSON)
+  const textContent = mcpResult.content[0]?.text ?? "";
+  let result: Record<string, unknown>;
   try {
-    const mcpResult = await mcpServer.callTool("calculate", {
-      operation: operation as string,
-      a: parseFloat(a as string),
-      b: parseFloat(b as string)
-    });
-    
-    // Extract the actual result from MCP format
-    const textContent = mcpResult.content[0].text;
-    const result = JSON.parse(textContent);
-    
-    res.json({
-      success: true,
-      ...result
-    });
-  } catch (error) {
-    res.status(400).json({
-      error: "Calculation failed",
-      message: error instanceof Error ? error.message : String(error)
-    });
+    result = JSON.parse(textContent);
+  } catch {
+    result = { result: textContent };
   }
-});
 
-router.post("/calculate", async (req: Request, res: Response) => {
-  console.log("🔧 POST /mcp/calculate");
-  const { operation, a, b } = req.body;
-  
-  if (!operation || a === undefined || b === undefined) {
-    return res.status(400).json({
-      error: "Missing parameters",
-      required: ["operation", "a", "b"],
-      example: { operation: "add", a: 10, b: 5 }
-    });
-  }
+  return res.json({
+    success: true,
+    ...result
+  });
+};
 
-  const mcpServer = new MCPServer();
-  
-  try {
-    const mcpResult = await mcpServer.callTool("calculate", { operation, a, b });
-    
-    // Extract the actual result from MCP format
-    const textContent = mcpResult.content[0].text;
-    const result = JSON.parse(textContent);
-    
-    res.json({
-      success: true,
-      ...result
-    });
-  } catch (error) {
-    res.status(400).json({
-      error: "Calculation failed",
-      message: error instanceof Error ? error.message : String(error)
-    });
+// Convert one query-string value to the type its schema declares.
+// Values that can't be converted are passed through for validation to reject.
+const coerceQueryValue = (value: unknown, schema: JsonSchemaProperty): unknown => {
+  if (schema.type === "array") {
+    if (Array.isArray(value)) return value;
+    return typeof value === "string" ? value.split(",") : value;
   }
-});
 
-// Weather Tool - GET and POST
-router.get("/weather", async (req: Request, res: Response) => {
-  console.log("🔧 GET /mcp/weather");
-  const { location, unit } = req.query;
-  
-  if (!location) {
-    return res.status(400).json({
-      error: "Missing location parameter",
-      example: "/mcp/weather?location=New York&unit=celsius"
-    });
-  }
+  // Repeated keys (?a=1&a=2) arrive as arrays: the last one wins
+  const raw = Array.isArray(value) ? value[value.length - 1] : value;
+  if (typeof raw !== "string") return raw;
 
-  const mcpServer = new MCPServer();
-  
-  try {
-    const mcpResult = await mcpServer.callTool("get_weather", {
-      location: location as string,
-      unit: (unit as string) || "celsius"
-    });
-    
-    // Extract the actual result from MCP format
-    const textContent = mcpResult.content[0].text;
-    const result = JSON.parse(textContent);
-    
-    res.json({
-      success: true,
-      ...result
-    });
-  } catch (error) {
-    res.status(400).json({
-      error: "Weather fetch failed",
-      message: error instanceof Error ? error.message : String(error)
-    });
+  switch (schema.type) {
+    case "number":
+    case "integer":
+      return raw.trim() === "" ? raw : Number(raw);
+    case "boolean":
+      if (raw === "true") return true;
+      if (raw === "false") return false;
+      return raw;
+    case "object":
+      try {
+        return JSON.parse(raw);
+      } catch {
+        return raw;
+      }
+    default:
+      return raw;
   }
-});
+};
 
-router.post("/weather", async (req: Request, res: Response) => {
-  console.log("🔧 POST /mcp/weather");
-  const { location, unit } = req.body;
-  
-  if (!location) {
-    return res.status(400).json({
-      error: "Missing location parameter",
-      example: { location: "New York", unit: "celsius" }
-    });
-  }
+// Build tool arguments from a query string using the tool's inputSchema
+export const coerceQueryArguments = (query: Request["query"], schema: ToolInputSchema) => {
+  // Own properties only, so "constructor" or "toString" are passed through for
+  // validation to reject instead of resolving to Object.prototype members.
+  // fromEntries keeps a "__proto__" key as a plain field.
+  return Object.fromEntries(
+    Object.entries(query).map(([key, value]) => [
+      key,
+      Object.hasOwn(schema.properties, key) ? coerceQueryValue(value, schema.properties[key]) : value,
+    ])
+  ) as Record<string, unknown>;
+};
 
-  const mcpServer = new MCPServer();
-  
+const runTool = async (res: Response, tool: ToolDefinition, args: unknown) => {
   try {
-    const mcpResult = await mcpServer.callTool("get_weather", { location, unit: unit || "celsius" });
-    
-    // Extract the actual result from MCP format
-    const textContent = mcpResult.content[0].text;
-    const result = JSON.parse(textContent);
-    
-    res.json({
-      success: true,
-      ...result
-    });
+    const mcpResult = await mcpServer.callTool(tool.name, args);
+    sendToolResult(res, mcpResult);
   } catch (error) {
-    res.status(400).json({
-      error: "Weather fetch failed",
+    if (error instanceof ToolValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: "INVALID_ARGUMENTS",
+        message: error.message,
+        errors: error.issues
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: "TOOL_EXECUTION_FAILED",
       message: error instanceof Error ? error.message : String(error)
     });
   }
-});
+};
+
+// One GET (query string) and one POST (JSON body) endpoint per registered tool
+for (const tool of mcpServer.getToolRegistry().getAll()) {
+  const path = `/${tool.metadata.restPath}`;
+
+  router.get(path, async (req: Request, res: Response) => {
+    console.log(`🔧 GET /mcp${path}`);
+    await runTool(res, tool, coerceQueryArguments(req.query, tool.inputSchema));
+  });
+
+  router.post(path, async (req: Request, res: Response) => {
+    console.log(`🔧 POST /mcp${path}`);
+    await runTool(res, tool, req.body ?? {});
+  });
+}
 
 export default router;
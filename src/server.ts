@@ -5,8 +5,67 @@ import {
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
+  CompleteRequestSchema,
+  ErrorCode,
+  McpError,
 } from "@modelcontextprotocol/sdk/types.js";
+import { createToolRegistry, ToolRegistry, ToolValidationError } from "./tools/index.js";
+import { negotiateProtocolVersion } from "./config/constants.js";
+import { getPromptLibrary, PromptArgumentError } from "./prompts/index.js";
+import { completeValues } from "./completion/index.js";
+
+// Fixed resources, served by readResource
+const RESOURCES = [
+  {
+    uri: "fluidsdk://config",
+    name: "Server Configuration",
+    description: "Current MCP server configuration",
+    mimeType: "application/json",
+  },
+  {
+    uri: "fluidsdk://status",
+    name: "Server Status",
+    description: "Real-time server health and metrics",
+    mimeType: "application/json",
+  },
+  {
+    uri: "fluidsdk://docs/api",
+    name: "API Documentation",
+    description: "FluidSDK API reference",
+    mimeType: "text/markdown",
+  },
+  {
+    uri: "fluidsdk://docs/quickstart",
+    name: "Quick Start Guide",
+    description: "Getting started with FluidSDK",
+    mimeType: "text/markdown",
+  },
+];
+
+// Fixed resources by short name ("config", "docs/api") with their descriptions,
+// for the / and /info endpoints and the config resource
+export const getResourceSummaries = (): Record<string, string> => {
+  return Object.fromEntries(
+    RESOURCES.map((resource) => [resource.uri.replace(/^fluidsdk:\/\//, ""), resource.description])
+  );
+};
+
+// Resource templates, with the values completion/complete offers for each parameter
+const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: "fluidsdk://docs/{page}",
+    name: "Documentation",
+    description: "FluidSDK documentation pages",
+    mimeType: "text/markdown",
+    completions: { page: ["api", "quickstart"] } as Record<string, string[]>,
+  },
+];
+
+export type CompletionReference =
+  | { type: "ref/prompt"; name: string }
+  | { type: "ref/resource"; uri: string };
 
 /**
  * FluidSDK MCP Server Core
@@ -14,8 +73,10 @@ import {
  */
 export class MCPServer {
   private server: Server;
+  private tools: ToolRegistry;
 
   constructor() {
+    this.tools = createToolRegistry();
     this.server = new Server(
       {
         name: "fluidsdk-mcp-server",
@@ -26,6 +87,7 @@ export class MCPServer {
           tools: {},
           prompts: {},
           resources: {},
+          completions: {},
         },
       }
     );
@@ -37,410 +99,75 @@ export class MCPServer {
     // Tools Handler
     this.server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
-        tools: [
-          {
-            name: "calculate",
-            description: "Perform basic mathematical calculations (add, subtract, multiply, divide)",
-            inputSchema: {
-              type: "object",
-              properties: {
-                operation: {
-                  type: "string",
-                  enum: ["add", "subtract", "multiply", "divide"],
-                  description: "The mathematical operation to perform",
-                },
-                a: {
-                  type: "number",
-                  description: "First number",
-                },
-                b: {
-                  type: "number",
-                  description: "Second number",
-                },
-              },
-              required: ["operation", "a", "b"],
-            },
-          },
-          {
-            name: "get_weather",
-            description: "Get mock weather information for a location",
-            inputSchema: {
-              type: "object",
-              properties: {
-                location: {
-                  type: "string",
-                  description: "City name or coordinates",
-                },
-                unit: {
-                  type: "string",
-                  enum: ["celsius", "fahrenheit"],
-                  description: "Temperature unit",
-                },
-              },
-              required: ["location"],
-            },
-          },
-          {
-            name: "echo",
-            description: "Echo back the input message",
-            inputSchema: {
-              type: "object",
-              properties: {
-                message: {
-                  type: "string",
-                  description: "Message to echo back",
-                },
-              },
-              required: ["message"],
-            },
-          },
-          {
-            name: "get_timestamp",
-            description: "Get current timestamp in various formats",
-            inputSchema: {
-              type: "object",
-              properties: {
-                format: {
-                  type: "string",
-                  enum: ["iso", "unix", "locale"],
-                  description: "Timestamp format",
-                },
-              },
-              required: [],
-            },
-          },
-        ],
+        tools: this.tools.list(),
       };
     });
 
     this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
 
-      switch (name) {
-        case "calculate":
-          return this.handleCalculate(args as any);
-        case "get_weather":
-          return this.handleWeather(args as any);
-        case "echo":
-          return this.handleEcho(args as any);
-        case "get_timestamp":
-          return this.handleTimestamp(args as any);
-        default:
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Error: Unknown tool ${name}`,
-              },
-            ],
-          };
+      try {
+        return await this.tools.call(name, args);
+      } catch (error) {
+        if (error instanceof ToolValidationError) {
+          throw new McpError(ErrorCode.InvalidParams, error.message, { errors: error.issues });
+        }
+        throw error;
       }
     });
 
     // Prompts Handler
     this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
       return {
-        prompts: [
-          {
-            name: "greeting",
-            description: "Generate a friendly greeting message",
-            arguments: [
-              {
-                name: "name",
-                description: "Name of the person to greet",
-                required: true,
-              },
-              {
-                name: "time_of_day",
-                description: "Time of day (morning, afternoon, evening)",
-                required: false,
-              },
-            ],
-          },
-          {
-            name: "code_review",
-            description: "Generate a code review prompt template",
-            arguments: [
-              {
-                name: "language",
-                description: "Programming language",
-                required: true,
-              },
-              {
-                name: "complexity",
-                description: "Code complexity level (low, medium, high)",
-                required: false,
-              },
-            ],
-          },
-          {
-            name: "debug_assistant",
-            description: "Generate a debugging assistance prompt",
-            arguments: [
-              {
-                name: "error_type",
-                description: "Type of error (syntax, runtime, logical)",
-                required: true,
-              },
-            ],
-          },
-        ],
+        prompts: this.getPrompts(),
       };
     });
 
     this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
 
-      switch (name) {
-        case "greeting":
-          return this.handleGreetingPrompt(args);
-        case "code_review":
-          return this.handleCodeReviewPrompt(args);
-        case "debug_assistant":
-          return this.handleDebugPrompt(args);
-        default:
-          throw new Error(`Unknown prompt: ${name}`);
+      if (!getPromptLibrary().has(name)) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+      }
+      try {
+        return this.getPrompt(name, args);
+      } catch (error) {
+        if (error instanceof PromptArgumentError) {
+          throw new McpError(ErrorCode.InvalidParams, error.message, { errors: error.issues });
+        }
+        throw error;
       }
     });
 
     // Resources Handler
     this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
       return {
-        resources: [
-          {
-            uri: "fluidsdk://config",
-            name: "Server Configuration",
-            description: "Current MCP server configuration",
-            mimeType: "application/json",
-          },
-          {
-            uri: "fluidsdk://status",
-            name: "Server Status",
-            description: "Real-time server health and metrics",
-            mimeType: "application/json",
-          },
-          {
-            uri: "fluidsdk://docs/api",
-            name: "API Documentation",
-            description: "FluidSDK API reference",
-            mimeType: "text/markdown",
-          },
-          {
-            uri: "fluidsdk://docs/quickstart",
-            name: "Quick Start Guide",
-            description: "Getting started with FluidSDK",
-            mimeType: "text/markdown",
-          },
-        ],
+        resources: this.getResources(),
+      };
+    });
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: this.getResourceTemplates(),
       };
     });
 
     this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       const { uri } = request.params;
+      return this.readResource(uri);
+    });
 
-      switch (uri) {
-        case "fluidsdk://config":
-          return this.handleConfigResource();
-        case "fluidsdk://status":
-          return this.handleStatusResource();
-        case "fluidsdk://docs/api":
-          return this.handleApiDocsResource();
-        case "fluidsdk://docs/quickstart":
-          return this.handleQuickstartResource();
-        default:
-          throw new Error(`Unknown resource: ${uri}`);
+    // Completion Handler
+    this.server.setRequestHandler(CompleteRequestSchema, async (request) => {
+      const { ref, argument } = request.params;
+      try {
+        return this.complete(ref as CompletionReference, argument.name, argument.value);
+      } catch (error) {
+        throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
       }
     });
   }
 
-  // Tool Implementations
-  private handleCalculate(args: { operation: string; a: number; b: number }) {
-    const { operation, a, b } = args;
-    let result: number;
-
-    switch (operation) {
-      case "add":
-        result = a + b;
-        break;
-      case "subtract":
-        result = a - b;
-        break;
-      case "multiply":
-        result = a * b;
-        break;
-      case "divide":
-        if (b === 0) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: "Error: Division by zero is not allowed",
-              },
-            ],
-          };
-        }
-        result = a / b;
-        break;
-      default:
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error: Unknown operation ${operation}`,
-            },
-          ],
-        };
-    }
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify({
-            operation,
-            operands: [a, b],
-            result,
-            expression: `${a} ${operation} ${b} = ${result}`,
-          }, null, 2),
-        },
-      ],
-    };
-  }
-
-  private handleWeather(args: { location: string; unit?: string }) {
-    const { location, unit = "celsius" } = args;
-    const temp = Math.floor(Math.random() * 30) + 10;
-    const conditions = ["Sunny", "Cloudy", "Rainy", "Windy", "Partly Cloudy"];
-
-    const mockWeather = {
-      location,
-      temperature: unit === "fahrenheit" ? temp * 1.8 + 32 : temp,
-      unit: unit === "fahrenheit" ? "°F" : "°C",
-      condition: conditions[Math.floor(Math.random() * conditions.length)],
-      humidity: Math.floor(Math.random() * 60) + 40,
-      wind_speed: Math.floor(Math.random() * 20) + 5,
-      timestamp: new Date().toISOString(),
-    };
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(mockWeather, null, 2),
-        },
-      ],
-    };
-  }
-
-  private handleEcho(args: { message: string }) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Echo: ${args.message}`,
-        },
-      ],
-    };
-  }
-
-  private handleTimestamp(args: { format?: string }) {
-    const now = new Date();
-    const format = args.format || "iso";
-
-    let timestamp: string | number;
-    switch (format) {
-      case "unix":
-        timestamp = Math.floor(now.getTime() / 1000);
-        break;
-      case "locale":
-        timestamp = now.toLocaleString();
-        break;
-      case "iso":
-      default:
-        timestamp = now.toISOString();
-        break;
-    }
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify({
-            format,
-            timestamp,
-            raw: now.toISOString(),
-          }, null, 2),
-        },
-      ],
-    };
-  }
-
-  // Prompt Implementations
-  private handleGreetingPrompt(args: any) {
-    const name = args?.name || "User";
-    const timeOfDay = args?.time_of_day || "day";
-
-    return {
-      messages: [
-        {
-          role: "user",
-          content: {
-            type: "text",
-            text: `Good ${timeOfDay}, ${name}! Welcome to FluidSDK. I'm your AI assistant powered by the Model Context Protocol. How can I help you today?`,
-          },
-        },
-      ],
-    };
-  }
-
-  private handleCodeReviewPrompt(args: any) {
-    const language = args?.language || "JavaScript";
-    const complexity = args?.complexity || "medium";
-
-    return {
-      messages: [
-        {
-          role: "user",
-          content: {
-            type: "text",
-            text: `Please review the following ${language} code with ${complexity} complexity.
-
-Focus Areas:
-1. **Code Quality**: Best practices and design patterns
-2. **Security**: Potential vulnerabilities or security issues
-3. **Performance**: Optimization opportunities
-4. **Maintainability**: Readability and documentation
-5. **Testing**: Test coverage and edge cases
-
-Provide specific, actionable feedback with examples where appropriate.`,
-          },
-        },
-      ],
-    };
-  }
-
-  private handleDebugPrompt(args: any) {
-    const errorType = args?.error_type || "runtime";
-
-    const prompts: Record<string, string> = {
-      syntax: "I'm encountering a syntax error. Please help me identify and fix the syntax issue in my code.",
-      runtime: "I'm experiencing a runtime error. Please help me debug this issue by analyzing the error message and stack trace.",
-      logical: "My code runs without errors but produces incorrect results. Please help me identify the logical error.",
-    };
-
-    return {
-      messages: [
-        {
-          role: "user",
-          content: {
-            type: "text",
-            text: prompts[errorType] || prompts.runtime,
-          },
-        },
-      ],
-    };
-  }
-
   // Resource Implementations
   private handleConfigResource() {
     return {
@@ -452,10 +179,10 @@ Provide specific, actionable feedback with examples where appropriate.`,
             {
               serverName: "fluidsdk-mcp-server",
               version: "1.0.0",
-              capabilities: ["tools", "prompts", "resources"],
-              tools: ["calculate", "get_weather", "echo", "get_timestamp"],
-              prompts: ["greeting", "code_review", "debug_assistant"],
-              resources: ["config", "status", "docs/api", "docs/quickstart"],
+              capabilities: ["tools", "prompts", "resources", "completions"],
+              tools: this.tools.getAll().map((tool) => tool.name),
+              prompts: this.getPrompts().map((prompt) => prompt.name),
+              resources: Object.keys(getResourceSummaries()),
               timestamp: new Date().toISOString(),
             },
             null,
@@ -627,171 +354,84 @@ Visit https://docs.fluidsdk.io for full documentation.
     };
   }
 
-  getTools() {
-    return [
-      {
-        name: "calculate",
-        description: "Perform basic mathematical calculations (add, subtract, multiply, divide)",
-        inputSchema: {
-          type: "object",
-          properties: {
-            operation: {
-              type: "string",
-              enum: ["add", "subtract", "multiply", "divide"],
-              description: "The mathematical operation to perform",
-            },
-            a: {
-              type: "number",
-              description: "First number",
-            },
-            b: {
-              type: "number",
-              description: "Second number",
-            },
-          },
-          required: ["operation", "a", "b"],
-        },
-      },
-      {
-        name: "get_weather",
-        description: "Get mock weather information for a location",
-        inputSchema: {
-          type: "object",
-          properties: {
-            location: {
-              type: "string",
-              description: "City name or coordinates",
-            },
-            unit: {
-              type: "string",
-              enum: ["celsius", "fahrenheit"],
-              description: "Temperature unit",
-            },
-          },
-          required: ["location"],
-        },
-      },
-      {
-        name: "echo",
-        description: "Echo back the input message",
-        inputSchema: {
-          type: "object",
-          properties: {
-            message: {
-              type: "string",
-              description: "Message to echo back",
-            },
-          },
-          required: ["message"],
-        },
-      },
-      {
-        name: "get_timestamp",
-        description: "Get current timestamp in various formats",
-        inputSchema: {
-          type: "object",
-          properties: {
-            format: {
-              type: "string",
-              enum: ["iso", "unix", "locale"],
-              description: "Timestamp format",
-            },
-          },
-          required: [],
-        },
+  // Result for the hand-rolled JSON-RPC initialize (SDK transports negotiate on their own)
+  getInitializeResult(requestedProtocolVersion?: unknown) {
+    return {
+      protocolVersion: negotiateProtocolVersion(requestedProtocolVersion),
+      capabilities: {
+        tools: { listChanged: false },
+        prompts: { listChanged: false },
+        resources: { subscribe: false, listChanged: false },
+        completions: {},
       },
-    ];
+      serverInfo: this.getServerInfo(),
+    };
+  }
+
+  getTools() {
+    return this.tools.list();
+  }
+
+  getToolRegistry(): ToolRegistry {
+    return this.tools;
   }
 
   getPrompts() {
-    return [
-      {
-        name: "greeting",
-        description: "Generate a friendly greeting message",
-        arguments: [
-          {
-            name: "name",
-            description: "Name of the person to greet",
-            required: true,
-          },
-          {
-            name: "time_of_day",
-            description: "Time of day (morning, afternoon, evening)",
-            required: false,
-          },
-        ],
-      },
-      {
-        name: "code_review",
-        description: "Generate a code review prompt template",
-        arguments: [
-          {
-            name: "language",
-            description: "Programming language",
-            required: true,
-          },
-          {
-            name: "complexity",
-            description: "Code complexity level (low, medium, high)",
-            required: false,
-          },
-        ],
-      },
-      {
-        name: "debug_assistant",
-        description: "Generate a debugging assistance prompt",
-        arguments: [
-          {
-            name: "error_type",
-            description: "Type of error (syntax, runtime, logical)",
-            required: true,
-          },
-        ],
-      },
-    ];
+    return getPromptLibrary().list();
   }
 
   getResources() {
-    return [
-      {
-        uri: "fluidsdk://config",
-        name: "Server Configuration",
-        description: "Current MCP server configuration",
-        mimeType: "application/json",
-      },
-      {
-        uri: "fluidsdk://status",
-        name: "Server Status",
-        description: "Real-time server health and metrics",
-        mimeType: "application/json",
-      },
-      {
-        uri: "fluidsdk://docs/api",
-        name: "API Documentation",
-        description: "FluidSDK API reference",
-        mimeType: "text/markdown",
-      },
-      {
-        uri: "fluidsdk://docs/quickstart",
-        name: "Quick Start Guide",
-        description: "Getting started with FluidSDK",
-        mimeType: "text/markdown",
-      },
-    ];
+    return RESOURCES;
   }
 
-  async callTool(name: string, args: any) {
-    switch (name) {
-      case "calculate":
-        return this.handleCalculate(args);
-      case "get_weather":
-        return this.handleWeather(args);
-      case "echo":
-        return this.handleEcho(args);
-      case "get_timestamp":
-        return this.handleTimestamp(args);
+  getResourceTemplates() {
+    return RESOURCE_TEMPLATES.map(({ completions, ...template }) => template);
+  }
+
+  /**
+   * Suggest values for a prompt argument or a resource template parameter,
+   * matching the partial value as a prefix. Unknown prompts, templates and
+   * arguments throw.
+   */
+  complete(ref: CompletionReference, argumentName: string, value: string = "") {
+    if (ref?.type === "ref/prompt") {
+      return { completion: getPromptLibrary().complete(ref.name, argumentName, value) };
+    }
+    if (ref?.type === "ref/resource") {
+      const template = RESOURCE_TEMPLATES.find((candidate) => candidate.uriTemplate === ref.uri);
+      if (!template) {
+        throw new Error(`Unknown resource template: ${ref.uri}`);
+      }
+      const candidates = template.completions[argumentName];
+      if (!candidates) {
+        throw new Error(`Resource template ${ref.uri} has no parameter ${argumentName}`);
+      }
+      return { completion: completeValues(candidates, value) };
+    }
+    throw new Error("ref.type must be ref/prompt or ref/resource");
+  }
+
+  // Render a prompt; embedded resources are read like resources/read
+  getPrompt(name: string, args?: Record<string, unknown>) {
+    return getPromptLibrary().render(name, args, (uri) => this.readResource(uri));
+  }
+
+  readResource(uri: string) {
+    switch (uri) {
+      case "fluidsdk://config":
+        return this.handleConfigResource();
+      case "fluidsdk://status":
+        return this.handleStatusResource();
+      case "fluidsdk://docs/api":
+        return this.handleApiDocsResource();
+      case "fluidsdk://docs/quickstart":
+        return this.handleQuickstartResource();
       default:
-        throw new Error(`Unknown tool: ${name}`);
+        throw new Error(`Unknown resource: ${uri}`);
     }
   }
+
+  async callTool(name: string, args: any) {
+    return this.tools.call(name, args);
+  }
 }
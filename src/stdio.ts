@@ -0,0 +1,33 @@
+#!/usr/bin/env node
+import { config } from "dotenv";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { MCPServer } from "./server.js";
+
+// stdout carries the MCP protocol stream: route every console.log to stderr
+// so no banner or debug line can corrupt it
+console.log = console.error;
+console.info = console.error;
+
+// Load environment variables (quiet: dotenv would otherwise log to stdout)
+config({ quiet: true });
+
+const main = async () => {
+  const mcpServer = new MCPServer();
+  const transport = new StdioServerTransport();
+
+  await mcpServer.getServer().connect(transport);
+  console.error("FluidSDK MCP Server running on stdio");
+};
+
+main().catch((error) => {
+  console.error("Fatal error starting stdio server:", error);
+  process.exit(1);
+});
+
+// Graceful shutdown
+const shutdown = () => {
+  process.exit(0);
+};
+
+process.on("SIGTERM", shutdown);
+process.on("SIGINT", shutdown);
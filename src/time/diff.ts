@@ -0,0 +1,107 @@
+import { addCalendar, getZonedParts } from "./zones.js";
+
+export interface DateDifference {
+  // 1 when end is after start, -1 when before, 0 when equal
+  sign: 1 | -1 | 0;
+  // Exact elapsed time in each unit (signed, rounded to 3 decimals)
+  total: {
+    milliseconds: number;
+    seconds: number;
+    minutes: number;
+    hours: number;
+    days: number;
+    weeks: number;
+  };
+  // Calendar breakdown in the timezone (unsigned): 1 month from Jan 31 is Feb 28
+  calendar: {
+    years: number;
+    months: number;
+    days: number;
+    hours: number;
+    minutes: number;
+    seconds: number;
+  };
+  // "2 years, 3 months and 4 days"
+  human: string;
+  // Start as seen from end, in the locale: "3 days ago" / "in 3 days"
+  relative: string;
+}
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+// Whole calendar months from one date to a later one
+const wholeMonthsBetween = (from: Date, to: Date, timeZone: string): number => {
+  const a = getZonedParts(from, timeZone);
+  const b = getZonedParts(to, timeZone);
+  let months = (b.year - a.year) * 12 + (b.month - a.month);
+  while (months > 0 && addCalendar(from, { months }, timeZone) > to) {
+    months--;
+  }
+  return months;
+};
+
+// Whole calendar days from one date to a later one
+const wholeDaysBetween = (from: Date, to: Date, timeZone: string): number => {
+  const a = getZonedParts(from, timeZone);
+  const b = getZonedParts(to, timeZone);
+  let days = Math.round((Date.UTC(b.year, b.month - 1, b.day) - Date.UTC(a.year, a.month - 1, a.day)) / 86_400_000);
+  while (days > 0 && addCalendar(from, { days }, timeZone) > to) {
+    days--;
+  }
+  return days;
+};
+
+/**
+ * Difference between two instants, as exact totals and as a calendar
+ * breakdown in the timezone
+ */
+export const diffDates = (start: Date, end: Date, timeZone: string, locale: string): DateDifference => {
+  const milliseconds = end.getTime() - start.getTime();
+  const sign = milliseconds > 0 ? 1 : milliseconds < 0 ? -1 : 0;
+  const [from, to] = sign < 0 ? [end, start] : [start, end];
+
+  const months = wholeMonthsBetween(from, to, timeZone);
+  const afterMonths = addCalendar(from, { months }, timeZone);
+  const days = wholeDaysBetween(afterMonths, to, timeZone);
+  const afterDays = addCalendar(afterMonths, { days }, timeZone);
+  const remainder = Math.floor((to.getTime() - afterDays.getTime()) / 1000);
+
+  const calendar = {
+    years: Math.floor(months / 12),
+    months: months % 12,
+    days,
+    hours: Math.floor(remainder / 3600),
+    minutes: Math.floor((remainder % 3600) / 60),
+    seconds: remainder % 60,
+  };
+
+  const units = Object.entries(calendar).filter(([, value]) => value > 0);
+  const words = units.map(([unit, value]) => `${value} ${value === 1 ? unit.slice(0, -1) : unit}`);
+  const human = words.length === 0
+    ? "0 seconds"
+    : words.length === 1
+      ? words[0]
+      : `${words.slice(0, -1).join(", ")} and ${words[words.length - 1]}`;
+
+  // Largest calendar unit that is not zero, e.g. "in 3 days" for 3 days 4 hours
+  const [unit, value] = units[0] ?? ["seconds", 0];
+  const relative = new Intl.RelativeTimeFormat(locale, { numeric: "auto" }).format(
+    sign > 0 ? -value : value,
+    unit as Intl.RelativeTimeFormatUnit
+  );
+
+  return {
+    sign,
+    total: {
+      milliseconds,
+      seconds: round(milliseconds / 1000),
+      minutes: round(milliseconds / 60_000),
+      hours: round(milliseconds / 3_600_000),
+      days: round(milliseconds / 86_400_000),
+      weeks: round(milliseconds / 604_800_000),
+    },
+    calendar,
+    human,
+    relative,
+  };
+};
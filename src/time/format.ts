@@ -0,0 +1,76 @@
+import { formatOffset, getTimeZoneOffset, getZonedParts } from "./zones.js";
+
+const pad = (value: number, length: number = 2): string => String(value).padStart(length, "0");
+
+// Helper to format an instant as ISO 8601 in a timezone: "Z" for UTC,
+// otherwise the zone's offset (2025-03-10T09:00:00.000-04:00)
+export const formatIsoInZone = (date: Date, timeZone: string): string => {
+  if (timeZone === "UTC" || timeZone === "Etc/UTC") {
+    return date.toISOString();
+  }
+  const parts = getZonedParts(date, timeZone);
+  return (
+    `${pad(parts.year, 4)}-${pad(parts.month)}-${pad(parts.day)}` +
+    `T${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}.${pad(parts.millisecond, 3)}` +
+    formatOffset(getTimeZoneOffset(date, timeZone))
+  );
+};
+
+// Helper to format an instant for people, in a locale and timezone
+export const formatLocale = (date: Date, timeZone: string, locale: string): string => {
+  return date.toLocaleString(locale, { timeZone, timeZoneName: "short" });
+};
+
+const PATTERN_TOKENS = /\[([^\]]*)]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|m|ss|s|SSS|A|a|ZZ|Z|z/g;
+
+/**
+ * Format an instant with a pattern in a timezone; month, weekday and zone
+ * names follow the locale. Tokens:
+ *   YYYY YY    year            MMMM MMM MM M   month (name, short name, number)
+ *   DD D       day of month    dddd ddd        weekday (name, short name)
+ *   HH H       hour (0-23)     hh h            hour (1-12)      A a   AM/PM
+ *   mm m       minute          ss s            second           SSS   millisecond
+ *   Z          +05:30          ZZ              +0530            z     zone name (EST)
+ * Text in [brackets] is printed as is.
+ */
+export const formatPattern = (date: Date, pattern: string, timeZone: string, locale: string): string => {
+  const parts = getZonedParts(date, timeZone);
+  const name = (options: Intl.DateTimeFormatOptions, type: Intl.DateTimeFormatPartTypes): string => {
+    return new Intl.DateTimeFormat(locale, { timeZone, ...options })
+      .formatToParts(date)
+      .find((part) => part.type === type)?.value ?? "";
+  };
+  const hour12 = parts.hour % 12 === 0 ? 12 : parts.hour % 12;
+
+  return pattern.replace(PATTERN_TOKENS, (token: string, literal?: string) => {
+    if (literal !== undefined) {
+      return literal;
+    }
+    switch (token) {
+      case "YYYY": return pad(parts.year, 4);
+      case "YY": return pad(parts.year % 100);
+      case "MMMM": return name({ month: "long" }, "month");
+      case "MMM": return name({ month: "short" }, "month");
+      case "MM": return pad(parts.month);
+      case "M": return String(parts.month);
+      case "DD": return pad(parts.day);
+      case "D": return String(parts.day);
+      case "dddd": return name({ weekday: "long" }, "weekday");
+      case "ddd": return name({ weekday: "short" }, "weekday");
+      case "HH": return pad(parts.hour);
+      case "H": return String(parts.hour);
+      case "hh": return pad(hour12);
+      case "h": return String(hour12);
+      case "mm": return pad(parts.minute);
+      case "m": return String(parts.minute);
+      case "ss": return pad(parts.second);
+      case "s": return String(parts.second);
+      case "SSS": return pad(parts.millisecond, 3);
+      case "A": return parts.hour < 12 ? "AM" : "PM";
+      case "a": return parts.hour < 12 ? "am" : "pm";
+      case "ZZ": return formatOffset(getTimeZoneOffset(date, timeZone), true);
+      case "Z": return formatOffset(getTimeZoneOffset(date, timeZone));
+      default: return name({ timeZoneName: "short" }, "timeZoneName");
+    }
+  });
+};
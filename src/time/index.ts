@@ -0,0 +1,21 @@
+export {
+  DateInputError,
+  addCalendar,
+  checkZoneAndLocale,
+  formatOffset,
+  getTimeZoneOffset,
+  getZonedParts,
+  isValidLocale,
+  isValidTimeZone,
+  zonedTimeToUtc,
+  type DateInputErrorReason,
+  type ZonedParts,
+} from "./zones.js";
+export { applyDateOffset, parseDateInput } from "./parse.js";
+export { formatIsoInZone, formatLocale, formatPattern } from "./format.js";
+export { diffDates, type DateDifference } from "./diff.js";
+
+// Defaults used when a request names no timezone or locale, so results never
+// depend on the server host's settings
+export const DEFAULT_TIME_ZONE = "UTC";
+export const DEFAULT_LOCALE = "en-US";
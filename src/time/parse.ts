@@ -0,0 +1,166 @@
+import { DateInputError, addCalendar, getZonedParts, zonedTimeToUtc } from "./zones.js";
+
+// Dates outside this range are rejected rather than silently clamped
+const MIN_YEAR = 1000;
+const MAX_YEAR = 9999;
+
+const ZONED_ISO = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$/i;
+const LOCAL_ISO = /^(\d{4})(?:-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?)?$/;
+// A bare four-digit string is a year ("2025"), not Unix seconds in 1970
+const UNIX = /^(?!\d{4}$)-?\d+(?:\.\d+)?$/;
+
+const isInRange = (date: Date): boolean => {
+  const year = date.getUTCFullYear();
+  return !Number.isNaN(date.getTime()) && year >= MIN_YEAR && year <= MAX_YEAR;
+};
+
+// Helper to reject fields that Date would roll over, such as February 30 or
+// 25:00, instead of moving to the next valid date
+const checkFields = (fields: (string | undefined)[], input: unknown): void => {
+  const [year, month, day, hour, minute, second] = fields.map((field) => Number(field ?? 0));
+  const check = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  if (
+    check.getUTCMonth() !== month - 1 ||
+    check.getUTCDate() !== day ||
+    check.getUTCHours() !== hour ||
+    minute > 59 ||
+    second > 59
+  ) {
+    throw new DateInputError("date", `Invalid date "${input}"`);
+  }
+};
+
+const checkRange = (date: Date, input: unknown): Date => {
+  if (!isInRange(date)) {
+    throw new DateInputError("date", `Invalid date "${input}"`);
+  }
+  return date;
+};
+
+/**
+ * Read a date argument:
+ * - nothing or "now": the current time
+ * - "today", "tomorrow", "yesterday": midnight in the timezone
+ * - Unix time as a number or digit string (seconds; 13+ digits are milliseconds)
+ * - ISO 8601 with "Z" or an offset: that exact instant
+ * - ISO 8601 without one ("2025", "2025-03-10", "2025-03-10T09:00"): wall-clock
+ *   time in the timezone; a bare year is January 1
+ */
+export const parseDateInput = (input: string | number | undefined, timeZone: string): Date => {
+  if (typeof input === "number") {
+    return checkRange(new Date(input * 1000), input);
+  }
+
+  const value = (input ?? "").trim();
+  const keyword = value.toLowerCase();
+  if (keyword === "" || keyword === "now") {
+    return new Date();
+  }
+  if (keyword === "today" || keyword === "tomorrow" || keyword === "yesterday") {
+    const midnight = zonedTimeToUtc(
+      { ...getZonedParts(new Date(), timeZone), hour: 0, minute: 0, second: 0, millisecond: 0 },
+      timeZone
+    );
+    return addCalendar(midnight, { days: keyword === "today" ? 0 : keyword === "tomorrow" ? 1 : -1 }, timeZone);
+  }
+
+  if (UNIX.test(value)) {
+    const digits = value.replace(/^-/, "").split(".")[0].length;
+    return checkRange(new Date(digits >= 13 ? Number(value) : Number(value) * 1000), input);
+  }
+
+  const zoned = value.match(ZONED_ISO);
+  if (zoned) {
+    checkFields(zoned.slice(1, 7), input);
+    return checkRange(new Date(value.replace(" ", "T")), input);
+  }
+
+  const local = value.match(LOCAL_ISO);
+  if (local) {
+    const [, year, month = "1", day = "1", hour = "0", minute = "0", second = "0", millisecond = "0"] = local;
+    const parts = {
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: Number(hour),
+      minute: Number(minute),
+      second: Number(second),
+      millisecond: Number(millisecond.padEnd(3, "0")),
+    };
+    checkFields([year, month, day, hour, minute, second], input);
+    return checkRange(zonedTimeToUtc(parts, timeZone), input);
+  }
+
+  throw new DateInputError(
+    "date",
+    `Unrecognized date "${input}"; use ISO 8601 (2025-03-10T09:00:00Z, 2025-03-10T09:00), Unix seconds, "now", "today", "tomorrow" or "yesterday"`
+  );
+};
+
+const OFFSET_UNITS: Record<string, "years" | "months" | "weeks" | "days" | "hours" | "minutes" | "seconds"> = {
+  y: "years", yr: "years", yrs: "years", year: "years", years: "years",
+  mo: "months", mon: "months", month: "months", months: "months",
+  w: "weeks", wk: "weeks", wks: "weeks", week: "weeks", weeks: "weeks",
+  d: "days", day: "days", days: "days",
+  h: "hours", hr: "hours", hrs: "hours", hour: "hours", hours: "hours",
+  m: "minutes", min: "minutes", mins: "minutes", minute: "minutes", minutes: "minutes",
+  s: "seconds", sec: "seconds", secs: "seconds", second: "seconds", seconds: "seconds",
+};
+
+const OFFSET_TERM = /([+-])\s*(\d+)\s*([a-z]+)/gi;
+
+/**
+ * Move a date by an offset such as "+3 days", "-2h" or "+1 month -1 day".
+ * Years, months, weeks and days follow the timezone's calendar (so a day is
+ * not always 24 hours across DST changes); hours, minutes and seconds are
+ * exact durations.
+ */
+export const applyDateOffset = (date: Date, offset: string, timeZone: string): Date => {
+  const totals = { years: 0, months: 0, weeks: 0, days: 0, hours: 0, minutes: 0, seconds: 0 };
+
+  const leftover = offset.replace(OFFSET_TERM, (_, sign: string, amount: string, unitName: string) => {
+    // Own keys only, so "constructor" is an unknown unit rather than a no-op
+    const key = unitName.toLowerCase();
+    const unit = Object.hasOwn(OFFSET_UNITS, key) ? OFFSET_UNITS[key] : undefined;
+    if (!unit) {
+      throw new DateInputError("offset", `Unknown unit "${unitName}" in offset "${offset}"`);
+    }
+    totals[unit] += (sign === "-" ? -1 : 1) * Number(amount);
+    return "";
+  });
+  if (leftover.trim() !== "" || offset.trim() === "") {
+    throw new DateInputError(
+      "offset",
+      `Invalid offset "${offset}"; use signed amounts with units, e.g. "+3 days", "-2 hours" or "+1 month -1 day"`
+    );
+  }
+
+  // Offsets that leave the supported years fail before the calendar math,
+  // which cannot represent dates past Date's limits
+  const outOfRange = new DateInputError(
+    "offset",
+    `Offset "${offset}" moves the date outside the years ${MIN_YEAR}-${MAX_YEAR}`
+  );
+  const approximateYears =
+    Math.abs(totals.years) +
+    Math.abs(totals.months) / 12 +
+    Math.abs(totals.weeks) / 52 +
+    Math.abs(totals.days) / 365 +
+    Math.abs(totals.hours) / 8760 +
+    Math.abs(totals.minutes) / 525_600 +
+    Math.abs(totals.seconds) / 31_536_000;
+  if (!(approximateYears <= MAX_YEAR - MIN_YEAR + 1)) {
+    throw outOfRange;
+  }
+
+  const moved = addCalendar(
+    date,
+    { years: totals.years, months: totals.months, days: totals.weeks * 7 + totals.days },
+    timeZone
+  );
+  const result = new Date(moved.getTime() + ((totals.hours * 60 + totals.minutes) * 60 + totals.seconds) * 1000);
+  if (!isInRange(moved) || !isInRange(result)) {
+    throw outOfRange;
+  }
+  return result;
+};
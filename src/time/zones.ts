@@ -0,0 +1,169 @@
+// Wall-clock fields of an instant in some timezone (month 1-12)
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+export type DateInputErrorReason = "date" | "timezone" | "locale" | "offset";
+
+/**
+ * Thrown for dates, timezones, locales or offsets that cannot be used
+ */
+export class DateInputError extends Error {
+  constructor(public reason: DateInputErrorReason, message: string) {
+    super(message);
+    this.name = "DateInputError";
+  }
+}
+
+// Formatters are costly to build; keep one per timezone
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getPartsFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// Helper to check an IANA timezone name ("America/New_York", "UTC")
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getPartsFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Helper to check a BCP 47 locale tag ("en-US", "de", "ja-JP")
+export const isValidLocale = (locale: string): boolean => {
+  try {
+    return Intl.getCanonicalLocales(locale).length === 1;
+  } catch {
+    return false;
+  }
+};
+
+// Helper to validate the timezone and locale arguments of the date tools
+export const checkZoneAndLocale = (timeZone: string, locale?: string) => {
+  if (!isValidTimeZone(timeZone)) {
+    throw new DateInputError("timezone", `Unknown timezone "${timeZone}"; use an IANA name such as "Europe/Paris"`);
+  }
+  if (locale !== undefined && !isValidLocale(locale)) {
+    throw new DateInputError("locale", `Invalid locale "${locale}"; use a tag such as "en-US" or "fr-FR"`);
+  }
+};
+
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const values: Record<string, number> = {};
+  for (const part of getPartsFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== "literal") {
+      values[part.type] = Number(part.value);
+    }
+  }
+  return {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    hour: values.hour,
+    minute: values.minute,
+    second: values.second,
+    millisecond: date.getUTCMilliseconds(),
+  };
+};
+
+// Helper to read wall-clock fields as a UTC timestamp. Unlike Date.UTC, years
+// 0-99 stay as given instead of becoming 1900-1999; out-of-range fields roll over.
+const toUtcTime = (parts: ZonedParts): number => {
+  const date = new Date(0);
+  date.setUTCFullYear(parts.year, parts.month - 1, parts.day);
+  date.setUTCHours(parts.hour, parts.minute, parts.second, parts.millisecond);
+  return date.getTime();
+};
+
+// Minutes the timezone is ahead of UTC at that instant (e.g. 330 for Asia/Kolkata)
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = toUtcTime(parts);
+  return Math.round((asUtc - date.getTime()) / 60000);
+};
+
+// Helper to format an offset in minutes as "+05:30" ("+0530" when compact)
+export const formatOffset = (minutes: number, compact: boolean = false): string => {
+  const sign = minutes < 0 ? "-" : "+";
+  const hours = String(Math.floor(Math.abs(minutes) / 60)).padStart(2, "0");
+  const rest = String(Math.abs(minutes) % 60).padStart(2, "0");
+  return compact ? `${sign}${hours}${rest}` : `${sign}${hours}:${rest}`;
+};
+
+// Helper to find the instant a wall-clock time has in a timezone. Times that
+// fall in a DST gap move forward by the gap (02:30 becomes 03:30); times that
+// occur twice when clocks go back take the first occurrence.
+export const zonedTimeToUtc = (parts: ZonedParts, timeZone: string): Date => {
+  const local = toUtcTime(parts);
+  // The offsets in force around that wall time: one, or the two either side
+  // of a DST change
+  const firstOffset = getTimeZoneOffset(new Date(local), timeZone);
+  const secondOffset = getTimeZoneOffset(new Date(local - firstOffset * 60000), timeZone);
+  const candidates = [...new Set([firstOffset, secondOffset])]
+    .map((offset) => local - offset * 60000)
+    .filter((time) => getTimeZoneOffset(new Date(time), timeZone) * 60000 === local - time);
+
+  if (candidates.length > 0) {
+    return new Date(Math.min(...candidates));
+  }
+  // In a gap: read the wall time with the offset from before the clocks
+  // jumped (the smaller one), which lands after the gap
+  return new Date(local - Math.min(firstOffset, secondOffset) * 60000);
+};
+
+const daysInMonth = (year: number, month: number): number => {
+  const lastDay = { year, month: month + 1, day: 0, hour: 0, minute: 0, second: 0, millisecond: 0 };
+  return new Date(toUtcTime(lastDay)).getUTCDate();
+};
+
+// Helper to move a date by calendar units in a timezone's wall clock, so
+// "+1 day" keeps the local time across DST changes. Month and year steps
+// clamp to the end of shorter months (Jan 31 + 1 month = Feb 28/29).
+export const addCalendar = (
+  date: Date,
+  { years = 0, months = 0, days = 0 }: { years?: number; months?: number; days?: number },
+  timeZone: string
+): Date => {
+  if (years === 0 && months === 0 && days === 0) {
+    return date;
+  }
+  const parts = getZonedParts(date, timeZone);
+  const totalMonths = parts.year * 12 + (parts.month - 1) + years * 12 + months;
+  const year = Math.floor(totalMonths / 12);
+  const month = (totalMonths % 12) + 1;
+  const day = Math.min(parts.day, daysInMonth(year, month));
+  // Let the day count roll over month ends
+  const shifted = new Date(toUtcTime({ ...parts, year, month, day: day + days, hour: 0, minute: 0, second: 0, millisecond: 0 }));
+  return zonedTimeToUtc(
+    {
+      ...parts,
+      year: shifted.getUTCFullYear(),
+      month: shifted.getUTCMonth() + 1,
+      day: shifted.getUTCDate(),
+    },
+    timeZone
+  );
+};
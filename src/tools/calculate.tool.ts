@@ -0,0 +1,74 @@
+import type { ToolDefinition } from "./types.js";
+import { toolError } from "./results.js";
+
+interface CalculateArgs {
+  operation: string;
+  a: number;
+  b: number;
+}
+
+export const calculateTool: ToolDefinition<CalculateArgs> = {
+  name: "calculate",
+  description: "Perform basic mathematical calculations (add, subtract, multiply, divide)",
+  inputSchema: {
+    type: "object",
+    properties: {
+      operation: {
+        type: "string",
+        enum: ["add", "subtract", "multiply", "divide"],
+        description: "The mathematical operation to perform",
+      },
+      a: {
+        type: "number",
+        description: "First number",
+      },
+      b: {
+        type: "number",
+        description: "Second number",
+      },
+    },
+    required: ["operation", "a", "b"],
+  },
+  metadata: {
+    restPath: "calculate",
+    category: "math",
+  },
+  handler: (args) => {
+    const { operation, a, b } = args;
+    let result: number;
+
+    switch (operation) {
+      case "add":
+        result = a + b;
+        break;
+      case "subtract":
+        result = a - b;
+        break;
+      case "multiply":
+        result = a * b;
+        break;
+      case "divide":
+        if (b === 0) {
+          return toolError("DIVISION_BY_ZERO", "Division by zero is not allowed");
+        }
+        result = a / b;
+        break;
+      default:
+        return toolError("UNKNOWN_OPERATION", `Unknown operation ${operation}`);
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            operation,
+            operands: [a, b],
+            result,
+            expression: `${a} ${operation} ${b} = ${result}`,
+          }, null, 2),
+        },
+      ],
+    };
+  },
+};
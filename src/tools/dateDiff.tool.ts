@@ -0,0 +1,85 @@
+import type { ToolDefinition } from "./types.js";
+import { toolError } from "./results.js";
+import { DATE_ERROR_CODES } from "./timestamp.tool.js";
+import {
+  DEFAULT_LOCALE,
+  DEFAULT_TIME_ZONE,
+  DateInputError,
+  checkZoneAndLocale,
+  diffDates,
+  formatIsoInZone,
+  parseDateInput,
+} from "../time/index.js";
+
+interface DateDiffArgs {
+  start: string;
+  end?: string;
+  timezone?: string;
+  locale?: string;
+}
+
+export const dateDiffTool: ToolDefinition<DateDiffArgs> = {
+  name: "date_diff",
+  description:
+    "Compute the time between two dates: exact totals in seconds to weeks, a calendar breakdown " +
+    "(years, months, days, ...) in a timezone, and a phrase like \"in 3 days\"",
+  inputSchema: {
+    type: "object",
+    properties: {
+      start: {
+        type: "string",
+        description: "Start date: ISO 8601, Unix seconds, \"now\", \"today\", \"tomorrow\" or \"yesterday\"",
+      },
+      end: {
+        type: "string",
+        default: "now",
+        description: "End date, in the same forms as start (default: now)",
+      },
+      timezone: {
+        type: "string",
+        default: DEFAULT_TIME_ZONE,
+        description: "IANA timezone for dates without an offset and for the calendar breakdown",
+      },
+      locale: {
+        type: "string",
+        default: DEFAULT_LOCALE,
+        description: "BCP 47 locale of the relative phrase, e.g. \"de-DE\"",
+      },
+    },
+    required: ["start"],
+  },
+  metadata: {
+    restPath: "date-diff",
+    category: "utility",
+  },
+  handler: (args) => {
+    const { timezone = DEFAULT_TIME_ZONE, locale = DEFAULT_LOCALE } = args;
+
+    let start: Date;
+    let end: Date;
+    try {
+      checkZoneAndLocale(timezone, locale);
+      start = parseDateInput(args.start, timezone);
+      end = parseDateInput(args.end, timezone);
+    } catch (error) {
+      if (error instanceof DateInputError) {
+        return toolError(DATE_ERROR_CODES[error.reason], error.message);
+      }
+      throw error;
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            start: formatIsoInZone(start, timezone),
+            end: formatIsoInZone(end, timezone),
+            timezone,
+            ...diffDates(start, end, timezone, locale),
+          }, null, 2),
+        },
+      ],
+    };
+  },
+};
@@ -0,0 +1,34 @@
+import type { ToolDefinition } from "./types.js";
+
+interface EchoArgs {
+  message: string;
+}
+
+export const echoTool: ToolDefinition<EchoArgs> = {
+  name: "echo",
+  description: "Echo back the input message",
+  inputSchema: {
+    type: "object",
+    properties: {
+      message: {
+        type: "string",
+        description: "Message to echo back",
+      },
+    },
+    required: ["message"],
+  },
+  metadata: {
+    restPath: "echo",
+    category: "utility",
+  },
+  handler: (args) => {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Echo: ${args.message}`,
+        },
+      ],
+    };
+  },
+};
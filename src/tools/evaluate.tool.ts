@@ -0,0 +1,101 @@
+import type { ToolDefinition } from "./types.js";
+import { toolError } from "./results.js";
+import { ExpressionError, evaluateExpression, type AngleUnit } from "../math/index.js";
+
+interface EvaluateArgs {
+  expression: string;
+  variables?: Record<string, unknown>;
+  precision?: number;
+  angleUnit?: AngleUnit;
+  steps?: boolean;
+}
+
+export const evaluateTool: ToolDefinition<EvaluateArgs> = {
+  name: "evaluate",
+  description:
+    "Evaluate a math expression such as (a + b) * c, 2^10, sqrt(x) or sin(pi / 4), with variables, " +
+    "functions (sqrt, cbrt, root, pow, exp, ln, log, sin, cos, tan, asin, acos, atan, atan2, abs, " +
+    "floor, ceil, round, min, max, hypot, ...) and optional step-by-step output",
+  inputSchema: {
+    type: "object",
+    properties: {
+      expression: {
+        type: "string",
+        description: "Expression using + - * / % ^ ! and parentheses; constants pi, e, tau, phi",
+      },
+      variables: {
+        type: "object",
+        description: "Numeric values for names used in the expression, e.g. { \"a\": 2, \"b\": 3 }",
+      },
+      precision: {
+        type: "integer",
+        minimum: 0,
+        maximum: 15,
+        description: "Decimal places to round the result and steps to",
+      },
+      angleUnit: {
+        type: "string",
+        enum: ["radians", "degrees"],
+        default: "radians",
+        description: "Unit of angles for trigonometric functions",
+      },
+      steps: {
+        type: "boolean",
+        default: false,
+        description: "Include each operation in evaluation order",
+      },
+    },
+    required: ["expression"],
+  },
+  metadata: {
+    restPath: "evaluate",
+    category: "math",
+  },
+  handler: (args) => {
+    const { expression, variables = {}, precision, angleUnit = "radians", steps = false } = args;
+
+    for (const [name, value] of Object.entries(variables)) {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return toolError("INVALID_EXPRESSION", `Variable "${name}" must be a finite number`);
+      }
+    }
+
+    let evaluation;
+    try {
+      evaluation = evaluateExpression(expression, {
+        variables: variables as Record<string, number>,
+        angleUnit,
+        precision,
+        steps,
+      });
+    } catch (error) {
+      if (!(error instanceof ExpressionError)) {
+        throw error;
+      }
+      switch (error.reason) {
+        case "division_by_zero":
+          return toolError("DIVISION_BY_ZERO", error.message);
+        case "domain":
+          return toolError("MATH_DOMAIN_ERROR", error.message);
+        default:
+          return toolError("INVALID_EXPRESSION", error.message);
+      }
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            operation: "evaluate",
+            expression,
+            ...(Object.keys(variables).length > 0 ? { variables } : {}),
+            result: evaluation.result,
+            ...(precision !== undefined ? { precision } : {}),
+            ...(evaluation.steps ? { steps: evaluation.steps } : {}),
+          }, null, 2),
+        },
+      ],
+    };
+  },
+};
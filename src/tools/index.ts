@@ -0,0 +1,23 @@
+import { ToolRegistry } from "./registry.js";
+import { calculateTool } from "./calculate.tool.js";
+import { evaluateTool } from "./evaluate.tool.js";
+import { weatherTool } from "./weather.tool.js";
+import { echoTool } from "./echo.tool.js";
+import { timestampTool } from "./timestamp.tool.js";
+import { dateDiffTool } from "./dateDiff.tool.js";
+
+export { ToolRegistry } from "./registry.js";
+export { ToolValidationError, validateArguments } from "./validation.js";
+export { toolError, isToolError } from "./results.js";
+export type * from "./types.js";
+
+// Build a registry with every built-in tool. Add new tools here.
+export const createToolRegistry = (): ToolRegistry => {
+  return new ToolRegistry()
+    .register(calculateTool)
+    .register(evaluateTool)
+    .register(weatherTool)
+    .register(echoTool)
+    .register(timestampTool)
+    .register(dateDiffTool);
+};
@@ -0,0 +1,69 @@
+import type { ToolDefinition, ToolResult } from "./types.js";
+import { ToolValidationError, validateArguments } from "./validation.js";
+import { toolError } from "./results.js";
+
+/**
+ * Tool Registry
+ * Single source of truth for tool definitions, shared by the MCP SDK
+ * handlers and the REST/JSON-RPC routes
+ */
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  register<TArgs>(tool: ToolDefinition<TArgs>): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool as ToolDefinition);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  getAll(): ToolDefinition[] {
+    return Array.from(this.tools.values());
+  }
+
+  // Tool listing in MCP format (no handlers or metadata)
+  list() {
+    return this.getAll().map(({ name, description, inputSchema }) => ({
+      name,
+      description,
+      inputSchema,
+    }));
+  }
+
+  /**
+   * Validate and run a tool. Invalid arguments throw ToolValidationError
+   * (a protocol error); every other failure comes back as an isError result.
+   */
+  async call(name: string, args: any): Promise<ToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return toolError("UNKNOWN_TOOL", `Unknown tool: ${name}`);
+    }
+
+    // Every transport goes through here, so arguments are always checked
+    const toolArgs = args ?? {};
+    const issues = validateArguments(toolArgs, tool.inputSchema);
+    if (issues.length > 0) {
+      throw new ToolValidationError(name, issues);
+    }
+
+    try {
+      return await tool.handler(toolArgs);
+    } catch (error) {
+      console.error(`❌ Tool ${name} failed:`, error);
+      return toolError(
+        "TOOL_EXECUTION_FAILED",
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+}
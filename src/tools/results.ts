@@ -0,0 +1,25 @@
+import type { ToolErrorCode, ToolResult } from "./types.js";
+
+/**
+ * Build a failed tool result. The error travels as a normal tool result
+ * (isError: true) so the calling model can see it, with the code repeated in
+ * structuredContent for clients that branch on it.
+ */
+export const toolError = (code: ToolErrorCode, message: string): ToolResult => {
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Error: ${message}`,
+      },
+    ],
+    isError: true,
+    structuredContent: {
+      error: { code, message },
+    },
+  };
+};
+
+export const isToolError = (result: ToolResult): boolean => {
+  return result.isError === true;
+};
@@ -0,0 +1,138 @@
+import type { ToolDefinition, ToolErrorCode } from "./types.js";
+import { toolError } from "./results.js";
+import {
+  DEFAULT_LOCALE,
+  DEFAULT_TIME_ZONE,
+  DateInputError,
+  applyDateOffset,
+  checkZoneAndLocale,
+  formatIsoInZone,
+  formatLocale,
+  formatOffset,
+  formatPattern,
+  getTimeZoneOffset,
+  parseDateInput,
+  type DateInputErrorReason,
+} from "../time/index.js";
+
+interface TimestampArgs {
+  format?: string;
+  timezone?: string;
+  locale?: string;
+  pattern?: string;
+  date?: string;
+  offset?: string;
+}
+
+// Tool error code for each kind of bad date input, shared by the date tools
+export const DATE_ERROR_CODES: Record<DateInputErrorReason, ToolErrorCode> = {
+  date: "INVALID_DATE",
+  timezone: "INVALID_TIMEZONE",
+  locale: "INVALID_LOCALE",
+  offset: "INVALID_OFFSET",
+};
+
+export const timestampTool: ToolDefinition<TimestampArgs> = {
+  name: "get_timestamp",
+  description:
+    "Get the current time, or a given date, in any IANA timezone and locale, optionally moved by an offset " +
+    "such as \"+3 days\" and formatted with a custom pattern",
+  inputSchema: {
+    type: "object",
+    properties: {
+      format: {
+        type: "string",
+        enum: ["iso", "unix", "unix_ms", "locale"],
+        description: "Timestamp format (ignored when pattern is set)",
+      },
+      timezone: {
+        type: "string",
+        default: DEFAULT_TIME_ZONE,
+        description: "IANA timezone, e.g. \"America/New_York\" or \"Asia/Tokyo\"",
+      },
+      locale: {
+        type: "string",
+        default: DEFAULT_LOCALE,
+        description: "BCP 47 locale for the locale format and names in patterns, e.g. \"fr-FR\"",
+      },
+      pattern: {
+        type: "string",
+        description:
+          "Custom format, e.g. \"dddd, MMMM D YYYY HH:mm z\" (YYYY MM DD HH mm ss SSS, MMMM/MMM month names, " +
+          "dddd/ddd weekdays, hh A 12-hour, Z offset, z zone; text in [brackets] is kept)",
+      },
+      date: {
+        type: "string",
+        description:
+          "Date to use instead of now: ISO 8601 (with Z or an offset, or a wall-clock time in the timezone), " +
+          "Unix seconds, \"today\", \"tomorrow\" or \"yesterday\"",
+      },
+      offset: {
+        type: "string",
+        description: "Move the date, e.g. \"+3 days\", \"-2 hours\", \"+1 month -1 day\" (y, mo, w, d, h, m, s)",
+      },
+    },
+    required: [],
+  },
+  metadata: {
+    restPath: "timestamp",
+    category: "utility",
+  },
+  handler: (args) => {
+    const { timezone = DEFAULT_TIME_ZONE, locale = DEFAULT_LOCALE, pattern, offset } = args;
+    const format = pattern !== undefined ? "pattern" : args.format || "iso";
+
+    let date: Date;
+    try {
+      checkZoneAndLocale(timezone, locale);
+      date = parseDateInput(args.date, timezone);
+      if (offset !== undefined) {
+        date = applyDateOffset(date, offset, timezone);
+      }
+    } catch (error) {
+      if (error instanceof DateInputError) {
+        return toolError(DATE_ERROR_CODES[error.reason], error.message);
+      }
+      throw error;
+    }
+
+    let timestamp: string | number;
+    switch (format) {
+      case "pattern":
+        timestamp = formatPattern(date, pattern!, timezone, locale);
+        break;
+      case "unix":
+        timestamp = Math.floor(date.getTime() / 1000);
+        break;
+      case "unix_ms":
+        timestamp = date.getTime();
+        break;
+      case "locale":
+        timestamp = formatLocale(date, timezone, locale);
+        break;
+      case "iso":
+      default:
+        timestamp = formatIsoInZone(date, timezone);
+        break;
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            format,
+            timestamp,
+            raw: date.toISOString(),
+            timezone,
+            utc_offset: formatOffset(getTimeZoneOffset(date, timezone)),
+            ...(format === "locale" || format === "pattern" ? { locale } : {}),
+            ...(pattern !== undefined ? { pattern } : {}),
+            ...(args.date !== undefined ? { date: args.date } : {}),
+            ...(offset !== undefined ? { offset } : {}),
+          }, null, 2),
+        },
+      ],
+    };
+  },
+};
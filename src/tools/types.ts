@@ -0,0 +1,73 @@
+/**
+ * Shared types for the tool registry
+ */
+
+export type JsonSchemaType = "string" | "number" | "integer" | "boolean" | "object" | "array";
+
+export interface JsonSchemaProperty {
+  type: JsonSchemaType;
+  description?: string;
+  enum?: string[];
+  default?: unknown;
+  // Bounds for number and integer properties
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface ToolInputSchema {
+  type: "object";
+  properties: Record<string, JsonSchemaProperty>;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+// Type aliases (not interfaces) so results stay assignable to the SDK's
+// index-signature result types
+export type ToolContent = {
+  type: "text";
+  text: string;
+};
+
+// Machine-readable codes carried by isError results
+export type ToolErrorCode =
+  | "UNKNOWN_TOOL"
+  | "UNKNOWN_OPERATION"
+  | "DIVISION_BY_ZERO"
+  | "INVALID_EXPRESSION"
+  | "MATH_DOMAIN_ERROR"
+  | "INVALID_DATE"
+  | "INVALID_TIMEZONE"
+  | "INVALID_LOCALE"
+  | "INVALID_OFFSET"
+  | "INVALID_LOCATION"
+  | "LOCATION_NOT_FOUND"
+  | "WEATHER_UNAVAILABLE"
+  | "TOOL_EXECUTION_FAILED";
+
+export type ToolError = {
+  code: ToolErrorCode;
+  message: string;
+};
+
+export type ToolResult = {
+  content: ToolContent[];
+  isError?: boolean;
+  structuredContent?: {
+    error?: ToolError;
+    [key: string]: unknown;
+  };
+};
+
+export interface ToolMetadata {
+  // Path segment used for the REST endpoint, e.g. "weather" -> /mcp/weather
+  restPath: string;
+  category?: string;
+}
+
+export interface ToolDefinition<TArgs = any> {
+  name: string;
+  description: string;
+  inputSchema: ToolInputSchema;
+  metadata: ToolMetadata;
+  handler: (args: TArgs) => ToolResult | Promise<ToolResult>;
+}
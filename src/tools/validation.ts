@@ -0,0 +1,123 @@
+import type { JsonSchemaProperty, ToolInputSchema } from "./types.js";
+
+export interface ValidationIssue {
+  field: string;
+  message: string;
+  expected?: unknown;
+  received?: unknown;
+}
+
+/**
+ * Thrown before dispatch when tool arguments don't match the tool's inputSchema.
+ * Transports map it to their own invalid-params error (-32602 for JSON-RPC/SDK).
+ */
+export class ToolValidationError extends Error {
+  constructor(public toolName: string, public issues: ValidationIssue[]) {
+    super(
+      `Invalid arguments for tool ${toolName}: ` +
+        issues.map((issue) => `${issue.field} ${issue.message}`).join("; ")
+    );
+    this.name = "ToolValidationError";
+  }
+}
+
+const describeType = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && !Number.isFinite(value)) return "NaN";
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: JsonSchemaProperty["type"]): boolean => {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+};
+
+const validateProperty = (field: string, value: unknown, schema: JsonSchemaProperty): ValidationIssue[] => {
+  if (!matchesType(value, schema.type)) {
+    return [{
+      field,
+      message: `must be of type ${schema.type}`,
+      expected: schema.type,
+      received: describeType(value),
+    }];
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return [{
+      field,
+      message: `must be one of: ${schema.enum.join(", ")}`,
+      expected: schema.enum,
+      received: value,
+    }];
+  }
+
+  if (schema.minimum !== undefined && (value as number) < schema.minimum) {
+    return [{
+      field,
+      message: `must be at least ${schema.minimum}`,
+      expected: { minimum: schema.minimum },
+      received: value,
+    }];
+  }
+
+  if (schema.maximum !== undefined && (value as number) > schema.maximum) {
+    return [{
+      field,
+      message: `must be at most ${schema.maximum}`,
+      expected: { maximum: schema.maximum },
+      received: value,
+    }];
+  }
+
+  return [];
+};
+
+// Validate arguments against a tool inputSchema, returning every failing field
+export const validateArguments = (args: unknown, schema: ToolInputSchema): ValidationIssue[] => {
+  if (typeof args !== "object" || args === null || Array.isArray(args)) {
+    return [{
+      field: "arguments",
+      message: "must be an object",
+      expected: "object",
+      received: describeType(args),
+    }];
+  }
+
+  const values = args as Record<string, unknown>;
+  const issues: ValidationIssue[] = [];
+
+  for (const field of schema.required ?? []) {
+    if (values[field] === undefined) {
+      issues.push({ field, message: "is required" });
+    }
+  }
+
+  for (const [field, value] of Object.entries(values)) {
+    // Own properties only, so "toString" or "__proto__" count as unknown fields
+    const propertySchema = Object.hasOwn(schema.properties, field) ? schema.properties[field] : undefined;
+    if (!propertySchema) {
+      if (schema.additionalProperties === false) {
+        issues.push({ field, message: "is not a recognized argument" });
+      }
+      continue;
+    }
+    if (value !== undefined) {
+      issues.push(...validateProperty(field, value, propertySchema));
+    }
+  }
+
+  return issues;
+};
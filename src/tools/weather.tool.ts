@@ -0,0 +1,98 @@
+import type { ToolDefinition } from "./types.js";
+import { toolError } from "./results.js";
+import { LocationNotFoundError, getWeatherProvider, type TemperatureUnit } from "../weather/index.js";
+
+interface WeatherArgs {
+  location: string;
+  unit?: TemperatureUnit;
+  days?: number;
+}
+
+const DEFAULT_FORECAST_DAYS = 3;
+
+export const weatherTool: ToolDefinition<WeatherArgs> = {
+  name: "get_weather",
+  description: "Get current weather and a daily forecast for a location",
+  inputSchema: {
+    type: "object",
+    properties: {
+      location: {
+        type: "string",
+        description: "City name or coordinates",
+      },
+      unit: {
+        type: "string",
+        enum: ["celsius", "fahrenheit"],
+        description: "Temperature unit",
+      },
+      days: {
+        type: "integer",
+        minimum: 1,
+        maximum: 7,
+        default: DEFAULT_FORECAST_DAYS,
+        description: "Forecast days, today included (1-7)",
+      },
+    },
+    required: ["location"],
+  },
+  metadata: {
+    restPath: "weather",
+    category: "data",
+  },
+  handler: async (args) => {
+    const { location, unit = "celsius", days = DEFAULT_FORECAST_DAYS } = args;
+
+    // Checked here so every provider rejects it the same way
+    if (!location.trim()) {
+      return toolError("INVALID_LOCATION", "Location must not be empty");
+    }
+
+    let report;
+    try {
+      report = await getWeatherProvider().getWeather({ location, unit, days });
+    } catch (error) {
+      if (error instanceof LocationNotFoundError) {
+        return toolError("LOCATION_NOT_FOUND", error.message);
+      }
+      console.error("❌ Weather provider failed:", error);
+      return toolError(
+        "WEATHER_UNAVAILABLE",
+        `Weather data is unavailable: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const symbol = report.unit === "fahrenheit" ? "°F" : "°C";
+    const weather = {
+      location: report.location.country ? `${report.location.name}, ${report.location.country}` : report.location.name,
+      coordinates: {
+        latitude: report.location.latitude,
+        longitude: report.location.longitude,
+      },
+      ...(report.location.timezone ? { timezone: report.location.timezone } : {}),
+      temperature: report.current.temperature,
+      unit: symbol,
+      condition: report.current.condition,
+      humidity: report.current.humidity,
+      wind_speed: report.current.windSpeed,
+      wind_speed_unit: "km/h",
+      timestamp: report.current.observedAt,
+      forecast: report.forecast.map((day) => ({
+        date: day.date,
+        min: day.temperatureMin,
+        max: day.temperatureMax,
+        condition: day.condition,
+        precipitation_probability: day.precipitationProbability,
+      })),
+      source: report.source,
+    };
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(weather, null, 2),
+        },
+      ],
+    };
+  },
+};
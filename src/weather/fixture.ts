@@ -0,0 +1,114 @@
+import { convertTemperature, parseCoordinates } from "./geo.js";
+import type { ForecastDay, GeoLocation, WeatherProvider, WeatherQuery, WeatherReport } from "./types.js";
+
+// Real coordinates for common cities; other names get made-up ones
+const KNOWN_LOCATIONS: GeoLocation[] = [
+  { name: "New York", country: "United States", latitude: 40.7143, longitude: -74.006, timezone: "America/New_York" },
+  { name: "San Francisco", country: "United States", latitude: 37.7749, longitude: -122.4194, timezone: "America/Los_Angeles" },
+  { name: "London", country: "United Kingdom", latitude: 51.5085, longitude: -0.1257, timezone: "Europe/London" },
+  { name: "Paris", country: "France", latitude: 48.8534, longitude: 2.3488, timezone: "Europe/Paris" },
+  { name: "Berlin", country: "Germany", latitude: 52.5244, longitude: 13.4105, timezone: "Europe/Berlin" },
+  { name: "Tokyo", country: "Japan", latitude: 35.6895, longitude: 139.6917, timezone: "Asia/Tokyo" },
+  { name: "Singapore", country: "Singapore", latitude: 1.2897, longitude: 103.8501, timezone: "Asia/Singapore" },
+  { name: "Sydney", country: "Australia", latitude: -33.8678, longitude: 151.2073, timezone: "Australia/Sydney" },
+];
+
+const CONDITIONS = ["Clear", "Partly Cloudy", "Overcast", "Rain", "Thunderstorm", "Fog", "Snow"];
+
+// Helper to hash a string to a 32-bit seed (FNV-1a)
+const hashSeed = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Small seeded PRNG (mulberry32) returning floats in [0, 1)
+const createRandom = (seed: number) => {
+  let state = seed;
+  return (): number => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const round = (value: number, decimals: number = 1): number => {
+  return Math.round(value * 10 ** decimals) / 10 ** decimals;
+};
+
+/**
+ * Offline weather: the same seed and location always give the same report
+ * (only dates and timestamps follow the clock), so results can be asserted on
+ * in tests.
+ */
+export class FixtureWeatherProvider implements WeatherProvider {
+  readonly name = "fixture";
+
+  constructor(private seed: string = "fluidmcp") {}
+
+  async getWeather({ location, unit, days }: WeatherQuery): Promise<WeatherReport> {
+    const place = this.geocode(location);
+    const random = createRandom(hashSeed(`${this.seed}:${place.latitude},${place.longitude}`));
+    const pick = <T>(values: T[]): T => values[Math.floor(random() * values.length)];
+
+    // Colder away from the equator, in Celsius
+    const baseline = 28 - Math.abs(place.latitude) * 0.45 + (random() - 0.5) * 8;
+    const current = {
+      temperature: convertTemperature(baseline + (random() - 0.5) * 4, unit),
+      condition: pick(CONDITIONS.filter((condition) => condition !== "Snow" || baseline < 3)),
+      humidity: Math.floor(40 + random() * 60),
+      windSpeed: round(random() * 35),
+      observedAt: new Date().toISOString(),
+    };
+
+    const today = new Date();
+    const forecast: ForecastDay[] = Array.from({ length: days }, (_, day) => {
+      const date = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() + day));
+      const low = baseline - 3 - random() * 5;
+      const condition = day === 0 ? current.condition : pick(CONDITIONS.filter((name) => name !== "Snow" || low < 1));
+      return {
+        date: date.toISOString().slice(0, 10),
+        temperatureMin: convertTemperature(low, unit),
+        temperatureMax: convertTemperature(low + 5 + random() * 7, unit),
+        condition,
+        precipitationProbability: ["Rain", "Thunderstorm", "Snow"].includes(condition)
+          ? Math.floor(60 + random() * 40)
+          : Math.floor(random() * 30),
+      };
+    });
+
+    return {
+      location: place,
+      unit,
+      current,
+      forecast,
+      source: {
+        provider: this.name,
+        fetchedAt: new Date().toISOString(),
+        cached: false,
+      },
+    };
+  }
+
+  private geocode(location: string): GeoLocation {
+    const coordinates = parseCoordinates(location);
+    if (coordinates) {
+      return coordinates;
+    }
+    const name = location.trim().replace(/\s+/g, " ");
+    const known = KNOWN_LOCATIONS.find((place) => place.name.toLowerCase() === name.toLowerCase());
+    if (known) {
+      return known;
+    }
+    const random = createRandom(hashSeed(`${this.seed}:${name.toLowerCase()}`));
+    return {
+      name,
+      latitude: round(random() * 120 - 60, 4),
+      longitude: round(random() * 360 - 180, 4),
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import type { GeoLocation, TemperatureUnit } from "./types.js";
+
+// Helper to read "40.71,-74.01" style coordinates, or undefined for a name
+export const parseCoordinates = (location: string): GeoLocation | undefined => {
+  const match = location.trim().match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) {
+    return undefined;
+  }
+  const latitude = Number(match[1]);
+  const longitude = Number(match[2]);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return undefined;
+  }
+  return { name: `${latitude},${longitude}`, latitude, longitude };
+};
+
+// Helper to convert a Celsius temperature, rounded to one decimal
+export const convertTemperature = (celsius: number, unit: TemperatureUnit): number => {
+  const value = unit === "fahrenheit" ? celsius * 1.8 + 32 : celsius;
+  return Math.round(value * 10) / 10;
+};
+
+// WMO weather interpretation codes, as used by Open-Meteo
+const WMO_CONDITIONS: Record<number, string> = {
+  0: "Clear",
+  1: "Mainly Clear",
+  2: "Partly Cloudy",
+  3: "Overcast",
+  45: "Fog",
+  48: "Fog",
+  51: "Drizzle",
+  53: "Drizzle",
+  55: "Drizzle",
+  56: "Freezing Drizzle",
+  57: "Freezing Drizzle",
+  61: "Rain",
+  63: "Rain",
+  65: "Heavy Rain",
+  66: "Freezing Rain",
+  67: "Freezing Rain",
+  71: "Snow",
+  73: "Snow",
+  75: "Heavy Snow",
+  77: "Snow Grains",
+  80: "Rain Showers",
+  81: "Rain Showers",
+  82: "Heavy Rain Showers",
+  85: "Snow Showers",
+  86: "Snow Showers",
+  95: "Thunderstorm",
+  96: "Thunderstorm with Hail",
+  99: "Thunderstorm with Hail",
+};
+
+export const describeWeatherCode = (code: number): string => {
+  return WMO_CONDITIONS[code] ?? "Unknown";
+};
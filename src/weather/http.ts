@@ -0,0 +1,173 @@
+import { convertTemperature, describeWeatherCode, parseCoordinates } from "./geo.js";
+import { LocationNotFoundError, type GeoLocation, type WeatherProvider, type WeatherQuery, type WeatherReport } from "./types.js";
+
+export interface HttpWeatherProviderOptions {
+  // Open-Meteo compatible forecast endpoint
+  forecastUrl: string;
+  // Open-Meteo compatible geocoding endpoint
+  geocodingUrl: string;
+  // Per upstream request
+  timeoutMs: number;
+  // How long a report is served from cache; 0 turns caching off
+  cacheTtlMs: number;
+}
+
+// Cached reports kept at most; the oldest are dropped first
+const MAX_CACHE_ENTRIES = 500;
+
+interface ForecastResponse {
+  timezone?: string;
+  current?: {
+    time: string;
+    temperature_2m: number;
+    relative_humidity_2m: number;
+    wind_speed_10m: number;
+    weather_code: number;
+  };
+  daily?: {
+    time: string[];
+    temperature_2m_max: number[];
+    temperature_2m_min: number[];
+    weather_code: number[];
+    precipitation_probability_max: (number | null)[];
+  };
+}
+
+interface GeocodingResponse {
+  results?: {
+    name: string;
+    country?: string;
+    latitude: number;
+    longitude: number;
+    timezone?: string;
+  }[];
+}
+
+/**
+ * Weather from an HTTP API speaking Open-Meteo's forecast and geocoding
+ * format (api.open-meteo.com by default, or a self-hosted instance).
+ * Temperatures are fetched in Celsius and converted, so both units share one
+ * cache entry per location and forecast length.
+ */
+export class HttpWeatherProvider implements WeatherProvider {
+  readonly name = "open-meteo";
+  private cache = new Map<string, { expiresAt: number; report: WeatherReport }>();
+
+  constructor(private options: HttpWeatherProviderOptions) {}
+
+  async getWeather({ location, unit, days }: WeatherQuery): Promise<WeatherReport> {
+    const key = `${location.trim().toLowerCase()}|${days}`;
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return this.inUnit({ ...cached.report, source: { ...cached.report.source, cached: true } }, unit);
+    }
+
+    const place = parseCoordinates(location) ?? (await this.geocode(location));
+    const url = new URL(this.options.forecastUrl);
+    url.search = new URLSearchParams({
+      latitude: String(place.latitude),
+      longitude: String(place.longitude),
+      current: "temperature_2m,relative_humidity_2m,wind_speed_10m,weather_code",
+      daily: "temperature_2m_max,temperature_2m_min,weather_code,precipitation_probability_max",
+      timezone: "auto",
+      forecast_days: String(days),
+    }).toString();
+
+    const data = await this.fetchJson<ForecastResponse>(url);
+    if (!data.current || !data.daily) {
+      throw new Error("Weather API response is missing current or daily data");
+    }
+    const { current, daily } = data;
+
+    const report: WeatherReport = {
+      location: { ...place, timezone: place.timezone ?? data.timezone },
+      unit: "celsius",
+      current: {
+        temperature: current.temperature_2m,
+        condition: describeWeatherCode(current.weather_code),
+        humidity: current.relative_humidity_2m,
+        windSpeed: current.wind_speed_10m,
+        observedAt: current.time,
+      },
+      forecast: daily.time.map((date, day) => ({
+        date,
+        temperatureMin: daily.temperature_2m_min[day],
+        temperatureMax: daily.temperature_2m_max[day],
+        condition: describeWeatherCode(daily.weather_code[day]),
+        precipitationProbability: daily.precipitation_probability_max[day] ?? 0,
+      })),
+      source: {
+        provider: this.name,
+        url: `${url.origin}${url.pathname}`,
+        fetchedAt: new Date().toISOString(),
+        cached: false,
+      },
+    };
+
+    this.store(key, report);
+    return this.inUnit(report, unit);
+  }
+
+  private async geocode(location: string): Promise<GeoLocation> {
+    const url = new URL(this.options.geocodingUrl);
+    url.search = new URLSearchParams({ name: location.trim(), count: "1", format: "json" }).toString();
+    const [result] = (await this.fetchJson<GeocodingResponse>(url)).results ?? [];
+    if (!result) {
+      throw new LocationNotFoundError(location);
+    }
+    return {
+      name: result.name,
+      country: result.country,
+      latitude: result.latitude,
+      longitude: result.longitude,
+      timezone: result.timezone,
+    };
+  }
+
+  private async fetchJson<T>(url: URL): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(url, { signal: AbortSignal.timeout(this.options.timeoutMs) });
+    } catch (error) {
+      if (error instanceof Error && error.name === "TimeoutError") {
+        throw new Error(`Weather API did not answer within ${this.options.timeoutMs}ms`);
+      }
+      throw error;
+    }
+    if (!response.ok) {
+      throw new Error(`Weather API responded with HTTP ${response.status}`);
+    }
+    return (await response.json()) as T;
+  }
+
+  private store(key: string, report: WeatherReport) {
+    if (this.options.cacheTtlMs <= 0) {
+      return;
+    }
+    this.cache.delete(key);
+    this.cache.set(key, { expiresAt: Date.now() + this.options.cacheTtlMs, report });
+    // Maps iterate in insertion order, so the first keys are the oldest
+    for (const oldest of this.cache.keys()) {
+      if (this.cache.size <= MAX_CACHE_ENTRIES) {
+        break;
+      }
+      this.cache.delete(oldest);
+    }
+  }
+
+  private inUnit(report: WeatherReport, unit: WeatherReport["unit"]): WeatherReport {
+    if (unit === report.unit) {
+      return report;
+    }
+    return {
+      ...report,
+      unit,
+      current: { ...report.current, temperature: convertTemperature(report.current.temperature, unit) },
+      forecast: report.forecast.map((day) => ({
+        ...day,
+        temperatureMin: convertTemperature(day.temperatureMin, unit),
+        temperatureMax: convertTemperature(day.temperatureMax, unit),
+      })),
+    };
+  }
+}
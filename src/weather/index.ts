@@ -0,0 +1,48 @@
+import { FixtureWeatherProvider } from "./fixture.js";
+import { HttpWeatherProvider } from "./http.js";
+import type { WeatherProvider } from "./types.js";
+
+export { FixtureWeatherProvider } from "./fixture.js";
+export { HttpWeatherProvider, type HttpWeatherProviderOptions } from "./http.js";
+export { LocationNotFoundError } from "./types.js";
+export type * from "./types.js";
+
+const DEFAULT_FORECAST_URL = "https://api.open-meteo.com/v1/forecast";
+const DEFAULT_GEOCODING_URL = "https://geocoding-api.open-meteo.com/v1/search";
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_CACHE_TTL_SECONDS = 600;
+
+// Helper to read a non-negative number from env, else the default
+const envNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+let weatherProvider: WeatherProvider | undefined;
+
+// Shared provider chosen by WEATHER_PROVIDER: "http" for the live API, else
+// the offline fixture. Created on first use so .env is loaded by then.
+export const getWeatherProvider = (): WeatherProvider => {
+  if (!weatherProvider) {
+    const provider = process.env.WEATHER_PROVIDER ?? "fixture";
+    if (provider === "http") {
+      weatherProvider = new HttpWeatherProvider({
+        forecastUrl: process.env.WEATHER_API_URL || DEFAULT_FORECAST_URL,
+        geocodingUrl: process.env.WEATHER_GEOCODING_URL || DEFAULT_GEOCODING_URL,
+        timeoutMs: envNumber("WEATHER_TIMEOUT_MS", DEFAULT_TIMEOUT_MS),
+        cacheTtlMs: envNumber("WEATHER_CACHE_TTL_SECONDS", DEFAULT_CACHE_TTL_SECONDS) * 1000,
+      });
+    } else {
+      if (provider !== "fixture") {
+        console.warn(`⚠️  Unknown WEATHER_PROVIDER "${provider}", using offline fixture data`);
+      }
+      weatherProvider = new FixtureWeatherProvider(process.env.WEATHER_FIXTURE_SEED || undefined);
+    }
+  }
+  return weatherProvider;
+};
+
+// Install another provider (e.g. a fixture with a known seed in tests)
+export const setWeatherProvider = (provider: WeatherProvider) => {
+  weatherProvider = provider;
+};
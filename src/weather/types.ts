@@ -0,0 +1,73 @@
+/**
+ * Shared types for weather providers
+ */
+
+export type TemperatureUnit = "celsius" | "fahrenheit";
+
+export interface WeatherQuery {
+  // City name, or "latitude,longitude"
+  location: string;
+  unit: TemperatureUnit;
+  // Forecast days, today included
+  days: number;
+}
+
+export interface GeoLocation {
+  name: string;
+  country?: string;
+  latitude: number;
+  longitude: number;
+  timezone?: string;
+}
+
+export interface CurrentWeather {
+  temperature: number;
+  condition: string;
+  // Relative humidity in %
+  humidity: number;
+  // km/h
+  windSpeed: number;
+  observedAt: string;
+}
+
+export interface ForecastDay {
+  // YYYY-MM-DD, in the location's timezone when the provider knows it
+  date: string;
+  temperatureMin: number;
+  temperatureMax: number;
+  condition: string;
+  // Chance of precipitation in %
+  precipitationProbability: number;
+}
+
+// Where a report came from
+export interface WeatherSource {
+  provider: string;
+  url?: string;
+  fetchedAt: string;
+  // Served from the provider's cache rather than fetched for this call
+  cached: boolean;
+}
+
+export interface WeatherReport {
+  location: GeoLocation;
+  unit: TemperatureUnit;
+  current: CurrentWeather;
+  forecast: ForecastDay[];
+  source: WeatherSource;
+}
+
+export interface WeatherProvider {
+  readonly name: string;
+  getWeather(query: WeatherQuery): Promise<WeatherReport>;
+}
+
+/**
+ * Thrown by providers when a location cannot be geocoded
+ */
+export class LocationNotFoundError extends Error {
+  constructor(public location: string) {
+    super(`Location not found: ${location}`);
+    this.name = "LocationNotFoundError";
+  }
+}